@@ -4,6 +4,10 @@ import Layout from './components/Layout';
 import UserProfile from './pages/UserProfile';
 import ArtistLeaderboard from './pages/ArtistLeaderboard';
 import OtherUserProfile from './pages/OtherUserProfile';
+import Wrapped from './pages/Wrapped';
+import Compare from './pages/Compare';
+import Feed from './pages/Feed';
+import ContentLeaderboard from './pages/ContentLeaderboard';
 import Upload from './pages/Upload';
 import Login from './pages/Login';
 
@@ -16,7 +20,12 @@ function App() {
           <Route index element={<Navigate to="/profile" replace />} />
           <Route path="profile" element={<UserProfile />} />
           <Route path="profile/:userId" element={<OtherUserProfile />} />
+          <Route path="profile/:userId/wrapped/:year" element={<Wrapped />} />
+          <Route path="compare/:userA/:userB" element={<Compare />} />
+          <Route path="feed" element={<Feed />} />
           <Route path="artist/:artistId" element={<ArtistLeaderboard />} />
+          <Route path="show/:name" element={<ContentLeaderboard kind="show" />} />
+          <Route path="audiobook/:name" element={<ContentLeaderboard kind="audiobook" />} />
           <Route path="upload" element={<Upload />} />
         </Route>
       </Routes>
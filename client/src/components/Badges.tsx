@@ -0,0 +1,21 @@
+export interface Badge {
+  code: string;
+  name: string;
+  icon: string;
+}
+
+export default function Badges({ badges }: { badges?: Badge[] }) {
+  if (!badges || badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-0.5">
+      {badges.map(badge => (
+        <span key={badge.code} title={badge.name} className="text-sm leading-none cursor-default">
+          {badge.icon}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,450 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import Badges, { Badge } from './Badges';
+
+const avatarEmoji: Record<string, string> = {
+  goat: '🐐',
+  cow: '🐄',
+  sheep: '🐑',
+  pig: '🐷',
+  horse: '🐴',
+  chicken: '🐔',
+  duck: '🦆',
+  rabbit: '🐰'
+};
+
+export interface Comment {
+  id: number;
+  parentId: number | null;
+  content: string | null;
+  deleted: boolean;
+  likes: number;
+  liked: boolean;
+  createdAt: string;
+  editedAt: string | null;
+  userId: number;
+  username: string;
+  avatar: string;
+  badges: Badge[];
+  isOwn: boolean;
+  canDelete: boolean;
+  replies: Comment[];
+}
+
+type Sort = 'top' | 'new';
+
+// Kept in step with REPORT_REASONS in server/moderation.ts.
+const reportReasons = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'hate', label: 'Hate' },
+  { value: 'off_topic', label: 'Off topic' },
+  { value: 'other', label: 'Other' }
+];
+
+const MAX_COMMENT_LENGTH = 1000;
+
+const timeAgo = (date: string) => {
+  const diff = Date.now() - new Date(date).getTime();
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  if (hours < 1) return 'just now';
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+};
+
+// Applies `update` to the comment with `id`, whether it is a thread or a reply.
+function updateComment(comments: Comment[], id: number, update: (comment: Comment) => Comment): Comment[] {
+  return comments.map(c => c.id === id
+    ? update(c)
+    : { ...c, replies: c.replies.map(r => r.id === id ? update(r) : r) }
+  );
+}
+
+// Mirrors the server: a comment with replies is blanked, anything else is
+// removed, and a blanked thread goes once its last reply does.
+function removeComment(comments: Comment[], id: number): Comment[] {
+  return comments.flatMap(c => {
+    if (c.id === id) {
+      return c.replies.length > 0 ? [{ ...c, content: null, deleted: true }] : [];
+    }
+    const replies = c.replies.filter(r => r.id !== id);
+    if (c.deleted && replies.length === 0) {
+      return [];
+    }
+    return [{ ...c, replies }];
+  });
+}
+
+interface CommentsProps {
+  // Where comments are listed (GET) and posted (POST).
+  listUrl: string;
+  postUrl: string;
+  initialComments: Comment[];
+  initialNextCursor: string | null;
+  title?: string;
+}
+
+export default function Comments({ listUrl, postUrl, initialComments, initialNextCursor, title = 'Fan Comments' }: CommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<Comment[]>(initialComments);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialNextCursor);
+  const [sort, setSort] = useState<Sort>('new');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // The thread a reply will appear in, and the comment it answers.
+  const [replyingTo, setReplyingTo] = useState<{ threadId: number; comment: Comment } | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  const [reportingId, setReportingId] = useState<number | null>(null);
+  const [reportedIds, setReportedIds] = useState<number[]>([]);
+  const [error, setError] = useState('');
+
+  const fetchPage = (pageSort: Sort, cursor: string | null) => {
+    const params = new URLSearchParams({ sort: pageSort });
+    if (cursor) params.set('cursor', cursor);
+    return fetch(`${listUrl}?${params}`)
+      .then(res => res.json())
+      .then(result => {
+        if (result.error) return;
+        setComments(prev => cursor ? [...prev, ...result.comments] : result.comments);
+        setNextCursor(result.nextCursor);
+      })
+      .catch(console.error);
+  };
+
+  const changeSort = (value: Sort) => {
+    if (value === sort) return;
+    setSort(value);
+    fetchPage(value, null);
+  };
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    fetchPage(sort, nextCursor).finally(() => setLoadingMore(false));
+  };
+
+  const postComment = async (content: string, parentId: number | null) => {
+    const res = await fetch(postUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, parentId })
+    });
+    const comment = await res.json();
+    if (comment.error) {
+      setError(comment.error);
+      return false;
+    }
+    setError('');
+    setComments(prev => comment.parentId
+      ? prev.map(c => c.id === comment.parentId ? { ...c, replies: [...c.replies, comment] } : c)
+      : [comment, ...prev]
+    );
+    return true;
+  };
+
+  const handleSubmitComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newComment.trim()) return;
+
+    setSubmitting(true);
+    try {
+      if (await postComment(newComment, null)) {
+        setNewComment('');
+      }
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  const handleSubmitReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replyingTo || !replyText.trim()) return;
+
+    setSubmitting(true);
+    try {
+      if (await postComment(replyText, replyingTo.comment.id)) {
+        setReplyText('');
+        setReplyingTo(null);
+      }
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  const handleLike = async (commentId: number) => {
+    try {
+      const res = await fetch(`/api/comment/${commentId}/like`, { method: 'POST' });
+      const result = await res.json();
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setComments(prev => updateComment(prev, commentId, c => ({ ...c, likes: result.likes, liked: result.liked })));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditText(comment.content || '');
+  };
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId === null || !editText.trim()) return;
+
+    try {
+      const res = await fetch(`/api/comment/${editingId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: editText })
+      });
+      const result = await res.json();
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setError('');
+      setComments(prev => updateComment(prev, editingId, c => ({ ...c, content: result.content, editedAt: result.editedAt })));
+      setEditingId(null);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleDelete = async (commentId: number) => {
+    if (!confirm('Delete this comment?')) return;
+    try {
+      const res = await fetch(`/api/comment/${commentId}`, { method: 'DELETE' });
+      const result = await res.json();
+      if (result.error) return;
+      setComments(prev => removeComment(prev, commentId));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const handleReport = async (commentId: number, reason: string) => {
+    try {
+      const res = await fetch(`/api/comment/${commentId}/report`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason })
+      });
+      const result = await res.json();
+      if (result.error) {
+        setError(result.error);
+        return;
+      }
+      setReportedIds(prev => [...prev, commentId]);
+      setReportingId(null);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const renderComment = (comment: Comment, threadId: number) => (
+    <div className="flex gap-3">
+      <Link
+        to={`/profile/${comment.userId}`}
+        className={`${comment.parentId ? 'w-8 h-8 text-lg' : 'w-10 h-10 text-xl'} bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center flex-shrink-0`}
+      >
+        {comment.deleted ? '💬' : avatarEmoji[comment.avatar] || '🐐'}
+      </Link>
+      <div className="flex-1 min-w-0">
+        {comment.deleted ? (
+          <p className="text-sm text-gray-400 italic py-2">[deleted]</p>
+        ) : (
+          <>
+            <p className="text-sm">
+              <Link to={`/profile/${comment.userId}`} className="font-medium text-gray-800 hover:underline">{comment.username}</Link>
+              <span className="ml-1"><Badges badges={comment.badges} /></span>
+              <span className="text-gray-400 ml-2">{timeAgo(comment.createdAt)}</span>
+              {comment.editedAt && <span className="text-gray-400 ml-1">(edited)</span>}
+            </p>
+            {editingId === comment.id ? (
+              <form onSubmit={handleSaveEdit} className="flex gap-2 mt-1">
+                <input
+                  type="text"
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  maxLength={MAX_COMMENT_LENGTH}
+                  autoFocus
+                  className="flex-1 px-3 py-1 rounded-full bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-400"
+                />
+                <button type="submit" disabled={!editText.trim()} className="text-sm text-green-600 font-medium disabled:opacity-50">
+                  Save
+                </button>
+                <button type="button" onClick={() => setEditingId(null)} className="text-sm text-gray-400">
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <p className="text-gray-700 break-words">{comment.content}</p>
+            )}
+            <div className="flex items-center gap-4 mt-1 text-sm text-gray-400">
+              <button
+                onClick={() => handleLike(comment.id)}
+                disabled={!user}
+                className={`flex items-center gap-1 ${comment.liked ? 'text-red-500' : user ? 'hover:text-red-500' : ''}`}
+              >
+                {comment.liked ? '❤️' : '🤍'} {comment.likes > 0 && comment.likes}
+              </button>
+              {user && (
+                <button
+                  onClick={() => {
+                    setReplyingTo({ threadId, comment });
+                    setReplyText('');
+                  }}
+                  className="hover:text-gray-600"
+                >
+                  Reply
+                </button>
+              )}
+              {comment.isOwn && editingId !== comment.id && (
+                <button onClick={() => startEditing(comment)} className="hover:text-gray-600">Edit</button>
+              )}
+              {comment.canDelete && editingId !== comment.id && (
+                <button onClick={() => handleDelete(comment.id)} className="hover:text-red-500">Delete</button>
+              )}
+              {user && !comment.isOwn && (
+                reportedIds.includes(comment.id) ? (
+                  <span>Reported</span>
+                ) : (
+                  <button
+                    onClick={() => setReportingId(reportingId === comment.id ? null : comment.id)}
+                    className="hover:text-gray-600"
+                  >
+                    Report
+                  </button>
+                )
+              )}
+            </div>
+            {reportingId === comment.id && (
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                <span className="text-gray-500">Why are you reporting this?</span>
+                {reportReasons.map(reason => (
+                  <button
+                    key={reason.value}
+                    onClick={() => handleReport(comment.id, reason.value)}
+                    className="px-3 py-1 rounded-full bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  >
+                    {reason.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-800">{title}</h2>
+        <div className="flex bg-gray-100 rounded-full p-1 text-sm">
+          {(['top', 'new'] as Sort[]).map(value => (
+            <button
+              key={value}
+              onClick={() => changeSort(value)}
+              className={`px-3 py-1 rounded-full capitalize ${sort === value ? 'bg-white shadow-sm text-gray-800 font-medium' : 'text-gray-500'}`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {user ? (
+        <form onSubmit={handleSubmitComment} className="flex gap-3 mb-6">
+          <div className="w-10 h-10 bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center text-xl flex-shrink-0">
+            {avatarEmoji[user.avatar] || '🐐'}
+          </div>
+          <input
+            type="text"
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            maxLength={MAX_COMMENT_LENGTH}
+            placeholder="Share your thoughts..."
+            className="flex-1 px-4 py-2 rounded-full bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-400"
+          />
+          <button
+            type="submit"
+            disabled={submitting || !newComment.trim()}
+            className="w-10 h-10 bg-green-500 text-white rounded-full flex items-center justify-center disabled:opacity-50"
+          >
+            ➤
+          </button>
+        </form>
+      ) : (
+        <p className="text-sm text-gray-500 mb-6">
+          <Link to="/login" className="text-green-600 font-medium hover:underline">Log in</Link> to join the conversation.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500 -mt-4 mb-4">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {comments.map(comment => (
+          <div key={comment.id}>
+            {renderComment(comment, comment.id)}
+            {(comment.replies.length > 0 || replyingTo?.threadId === comment.id) && (
+              <div className="ml-12 mt-3 pl-4 border-l-2 border-gray-100 space-y-3">
+                {comment.replies.map(reply => (
+                  <div key={reply.id}>{renderComment(reply, comment.id)}</div>
+                ))}
+                {replyingTo?.threadId === comment.id && (
+                  <form onSubmit={handleSubmitReply} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      maxLength={MAX_COMMENT_LENGTH}
+                      placeholder={`Reply to ${replyingTo.comment.username}...`}
+                      autoFocus
+                      className="flex-1 px-3 py-1 rounded-full bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-400"
+                    />
+                    <button
+                      type="submit"
+                      disabled={submitting || !replyText.trim()}
+                      className="text-sm text-green-600 font-medium disabled:opacity-50"
+                    >
+                      Reply
+                    </button>
+                    <button type="button" onClick={() => setReplyingTo(null)} className="text-sm text-gray-400">
+                      Cancel
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        {comments.length === 0 && (
+          <p className="text-center text-gray-500 py-4">No comments yet. Be the first to share!</p>
+        )}
+      </div>
+
+      {nextCursor && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="w-full mt-6 text-sm text-green-600 hover:text-green-700 font-medium disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load more comments'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
+import NotificationBell from './NotificationBell';
+
+interface Suggestion {
+  key: string;
+  label: string;
+  detail: string;
+  path: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
 
 export default function Layout() {
   const location = useLocation();
@@ -8,17 +18,78 @@ export default function Layout() {
   const { user, logout } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
   const [showUserMenu, setShowUserMenu] = useState(false);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [suggestionsFor, setSuggestionsFor] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
   const isArtistPage = location.pathname.startsWith('/artist');
+  const isFeedPage = location.pathname === '/feed';
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const url = isArtistPage ? '/api/artists/search' : '/api/users/search';
+      fetch(`${url}?q=${encodeURIComponent(query)}`)
+        .then(res => res.json())
+        .then(results => {
+          if (cancelled || !Array.isArray(results)) return;
+          setSuggestions(isArtistPage
+            ? results.map((a: { id: number; name: string; minutes: number; listeners: number }) => ({
+                key: String(a.id),
+                label: a.name,
+                detail: `${a.listeners.toLocaleString()} ${a.listeners === 1 ? 'listener' : 'listeners'} · ${a.minutes.toLocaleString()} min`,
+                path: `/artist/${a.id}`
+              }))
+            : results.map((u: { id: number; username: string }) => ({
+                key: String(u.id),
+                label: u.username,
+                detail: 'Fan',
+                path: user && u.id === user.id ? '/profile' : `/profile/${u.id}`
+              })));
+          setSuggestionsFor(query);
+          setHighlighted(0);
+        })
+        .catch(console.error);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, isArtistPage]);
 
+  const selectSuggestion = (suggestion: Suggestion) => {
+    navigate(suggestion.path);
+    setSearchQuery('');
+    setSuggestions([]);
+    setShowSuggestions(false);
+  };
+
+  // Only known artists and fans can be opened from the search box, so a typo
+  // can't land on an empty leaderboard.
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      if (isArtistPage) {
-        navigate(`/artist/${encodeURIComponent(searchQuery.trim())}`);
-      } else {
-        navigate(`/profile/${encodeURIComponent(searchQuery.trim())}`);
-      }
-      setSearchQuery('');
+    const suggestion = suggestions[highlighted] || suggestions[0];
+    if (searchQuery.trim() && suggestion) {
+      selectSuggestion(suggestion);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
     }
   };
 
@@ -36,16 +107,50 @@ export default function Layout() {
             <img src="/herd-logo.png" alt="Herd" className="w-10 h-10" />
             <span className="font-bold text-xl text-gray-800">HERD</span>
           </Link>
-          <form onSubmit={handleSearch} className="flex-1 max-w-xs ml-4">
+          <form onSubmit={handleSearch} className="flex-1 max-w-xs ml-4 relative">
             <input
               type="text"
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                setShowSuggestions(true);
+              }}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              onKeyDown={handleSearchKeyDown}
               placeholder={isArtistPage ? "Search artists..." : "Search fans..."}
               className="w-full px-4 py-2 rounded-full bg-gray-100 border-none focus:outline-none focus:ring-2 focus:ring-green-400 text-sm"
             />
+            {showSuggestions && searchQuery.trim() && (suggestions.length > 0 || suggestionsFor === searchQuery.trim()) && (
+              <div className="absolute left-0 right-0 top-12 bg-white rounded-lg shadow-lg border py-2">
+                {suggestions.length === 0 ? (
+                  <p className="px-4 py-2 text-sm text-gray-500">
+                    {isArtistPage ? 'No artists found' : 'No fans found'}
+                  </p>
+                ) : (
+                  suggestions.map((suggestion, i) => (
+                    <button
+                      key={suggestion.key}
+                      type="button"
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => selectSuggestion(suggestion)}
+                      onMouseEnter={() => setHighlighted(i)}
+                      className={`block w-full text-left px-4 py-2 ${i === highlighted ? 'bg-gray-100' : ''}`}
+                    >
+                      <span className="block text-sm text-gray-800 truncate">{suggestion.label}</span>
+                      <span className="block text-xs text-gray-500">{suggestion.detail}</span>
+                    </button>
+                  ))
+                )}
+              </div>
+            )}
           </form>
-          <div className="ml-4 relative">
+          {user && (
+            <div className="ml-4">
+              <NotificationBell />
+            </div>
+          )}
+          <div className={`${user ? 'ml-2' : 'ml-4'} relative`}>
             {user ? (
               <>
                 <button
@@ -66,6 +171,13 @@ export default function Layout() {
                     >
                       My Profile
                     </Link>
+                    <Link
+                      to="/feed"
+                      className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                      onClick={() => setShowUserMenu(false)}
+                    >
+                      Feed
+                    </Link>
                     <Link
                       to="/upload"
                       className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
@@ -104,11 +216,19 @@ export default function Layout() {
           <Link
             to="/profile"
             className={`flex-1 py-4 text-center font-medium ${
-              !isArtistPage ? 'text-green-600 border-t-2 border-green-600' : 'text-gray-500'
+              !isArtistPage && !isFeedPage ? 'text-green-600 border-t-2 border-green-600' : 'text-gray-500'
             }`}
           >
             Fans
           </Link>
+          <Link
+            to="/feed"
+            className={`flex-1 py-4 text-center font-medium ${
+              isFeedPage ? 'text-green-600 border-t-2 border-green-600' : 'text-gray-500'
+            }`}
+          >
+            Feed
+          </Link>
           <Link
             to="/artist/Taylor Swift"
             className={`flex-1 py-4 text-center font-medium ${
@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+
+interface PeriodTotal {
+  period: string;
+  minutes: number;
+}
+
+interface ActivityData {
+  daily: Array<{ date: string; minutes: number }>;
+  weekly: PeriodTotal[];
+  monthly: PeriodTotal[];
+  yearly: PeriodTotal[];
+  hourly: number[][];
+}
+
+type Granularity = 'weekly' | 'monthly' | 'yearly';
+
+const granularityOptions: Array<{ key: Granularity; label: string; periods: number }> = [
+  { key: 'weekly', label: 'Weeks', periods: 26 },
+  { key: 'monthly', label: 'Months', periods: 24 },
+  { key: 'yearly', label: 'Years', periods: Infinity }
+];
+
+const HEATMAP_WEEKS = 53;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const weekdayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const intensityColors = ['bg-gray-100', 'bg-green-200', 'bg-green-300', 'bg-green-500', 'bg-green-700'];
+
+function intensity(minutes: number, max: number) {
+  if (minutes <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((minutes / max) * 4));
+}
+
+// The last HEATMAP_WEEKS weeks as columns of Monday-to-Sunday UTC dates,
+// ending with the current week.
+function heatmapWeeks(now = new Date()) {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  const firstMonday = today - (daysSinceMonday + (HEATMAP_WEEKS - 1) * 7) * DAY_MS;
+  return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => {
+      const time = firstMonday + (week * 7 + day) * DAY_MS;
+      return time > today ? null : new Date(time).toISOString().slice(0, 10);
+    })
+  );
+}
+
+export default function ListeningActivity({
+  userId,
+  artistId,
+  title,
+  showHeatmap = true
+}: {
+  userId: number;
+  artistId?: number;
+  title: string;
+  showHeatmap?: boolean;
+}) {
+  const [data, setData] = useState<ActivityData | null>(null);
+  const [granularity, setGranularity] = useState<Granularity>('monthly');
+
+  useEffect(() => {
+    const params = artistId ? `?artistId=${artistId}` : '';
+    fetch(`/api/user/${userId}/activity${params}`)
+      .then(res => res.json())
+      .then(result => setData(result.error ? null : result))
+      .catch(console.error);
+  }, [userId, artistId]);
+
+  if (!data || data.daily.length === 0) {
+    return null;
+  }
+
+  const option = granularityOptions.find(o => o.key === granularity)!;
+  const trend = data[granularity].slice(-option.periods);
+  const trendMax = Math.max(...trend.map(p => p.minutes), 1);
+
+  const dailyMinutes = new Map(data.daily.map(d => [d.date, d.minutes]));
+  const weeks = heatmapWeeks();
+  const heatmapMax = Math.max(
+    ...weeks.flat().map(date => (date && dailyMinutes.get(date)) || 0),
+    1
+  );
+  const hourlyMax = Math.max(...data.hourly.flat(), 1);
+
+  return (
+    <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <span>📈</span> {title}
+        </h2>
+        <div className="flex gap-1">
+          {granularityOptions.map(o => (
+            <button
+              key={o.key}
+              onClick={() => setGranularity(o.key)}
+              className={`px-3 py-1 rounded-full text-xs ${
+                granularity === o.key ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-end gap-0.5 h-32">
+        {trend.map(p => (
+          <div
+            key={p.period}
+            title={`${p.period}: ${p.minutes.toLocaleString()} min`}
+            className="flex-1 bg-green-400 hover:bg-green-600 rounded-t"
+            style={{ height: `${(p.minutes / trendMax) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{trend[0]?.period}</span>
+        <span>{trend[trend.length - 1]?.period}</span>
+      </div>
+
+      {showHeatmap && (
+        <>
+          <h3 className="text-sm font-medium text-gray-600 mt-6 mb-2">Past year</h3>
+          <div className="overflow-x-auto">
+            <div className="flex gap-0.5">
+              {weeks.map((week, i) => (
+                <div key={i} className="flex flex-col gap-0.5">
+                  {week.map((date, day) => (
+                    <div
+                      key={day}
+                      title={date ? `${date}: ${(dailyMinutes.get(date) || 0).toLocaleString()} min` : undefined}
+                      className={`w-2.5 h-2.5 rounded-sm ${
+                        date ? intensityColors[intensity(dailyMinutes.get(date) || 0, heatmapMax)] : ''
+                      }`}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <h3 className="text-sm font-medium text-gray-600 mt-6 mb-2">By day and hour (UTC)</h3>
+          <div className="space-y-0.5">
+            {data.hourly.map((hours, day) => (
+              <div key={day} className="flex items-center gap-0.5">
+                <span className="w-8 text-xs text-gray-400">{weekdayLabels[day]}</span>
+                {hours.map((minutes, hour) => (
+                  <div
+                    key={hour}
+                    title={`${weekdayLabels[day]} ${hour}:00: ${minutes.toLocaleString()} min`}
+                    className={`flex-1 h-3 rounded-sm ${intensityColors[intensity(minutes, hourlyMax)]}`}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
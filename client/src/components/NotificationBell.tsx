@@ -0,0 +1,180 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+
+const UNREAD_POLL_MS = 60 * 1000;
+
+interface Notification {
+  id: number;
+  type: 'overtaken' | 'took_first' | 'comment_like' | 'comment_reply' | 'wall_comment';
+  read: boolean;
+  createdAt: string;
+  actor: { id: number; username: string; avatar: string } | null;
+  artist: { id: number; name: string; imageUrl: string | null } | null;
+  comment: { id: number; content: string | null } | null;
+  profileUser: { id: number; username: string } | null;
+}
+
+const timeAgo = (date: string) => {
+  const diff = Date.now() - new Date(date).getTime();
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  if (hours < 1) return 'just now';
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+};
+
+function describe(notification: Notification) {
+  const actor = <span className="font-medium text-gray-800">{notification.actor?.username}</span>;
+  const artist = <span className="font-medium text-gray-800">{notification.artist?.name}</span>;
+
+  switch (notification.type) {
+    case 'overtaken':
+      return <>{actor} overtook you on {artist}</>;
+    case 'took_first':
+      return <>👑 You took #1 on {artist}</>;
+    case 'comment_like':
+      return <>{actor} liked your comment</>;
+    case 'comment_reply':
+      return <>{actor} replied to your comment</>;
+    case 'wall_comment':
+      return <>{actor} wrote on your wall</>;
+  }
+}
+
+export default function NotificationBell() {
+  const location = useLocation();
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Rankings only move when someone imports, so a slow poll plus a check on
+  // every navigation keeps the count fresh enough.
+  useEffect(() => {
+    if (!user) return;
+    const fetchCount = () => {
+      fetch('/api/notifications/unread-count', { credentials: 'include' })
+        .then(res => res.json())
+        .then(result => {
+          if (typeof result.unreadCount === 'number') setUnreadCount(result.unreadCount);
+        })
+        .catch(console.error);
+    };
+    fetchCount();
+    const timer = setInterval(fetchCount, UNREAD_POLL_MS);
+    return () => clearInterval(timer);
+  }, [user, location.pathname]);
+
+  const fetchPage = (cursor: string | null) => {
+    setLoading(true);
+    const params = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return fetch(`/api/notifications${params}`, { credentials: 'include' })
+      .then(res => res.json())
+      .then(result => {
+        if (result.error) return;
+        setNotifications(prev => cursor ? [...prev, ...result.notifications] : result.notifications);
+        setNextCursor(result.nextCursor);
+        setUnreadCount(result.unreadCount);
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  };
+
+  const toggleOpen = () => {
+    if (!open) {
+      fetchPage(null);
+    }
+    setOpen(!open);
+  };
+
+  const markRead = (notification: Notification) => {
+    setOpen(false);
+    if (notification.read) return;
+    setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read: true } : n));
+    fetch(`/api/notifications/${notification.id}/read`, { method: 'POST', credentials: 'include' })
+      .then(res => res.json())
+      .then(result => {
+        if (typeof result.unreadCount === 'number') setUnreadCount(result.unreadCount);
+      })
+      .catch(console.error);
+  };
+
+  const markAllRead = () => {
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    fetch('/api/notifications/read-all', { method: 'POST', credentials: 'include' })
+      .catch(console.error);
+  };
+
+  const linkFor = (notification: Notification) => {
+    if (notification.profileUser) {
+      return notification.profileUser.id === user?.id ? '/profile' : `/profile/${notification.profileUser.id}`;
+    }
+    return notification.artist ? `/artist/${notification.artist.id}` : '/profile';
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggleOpen}
+        className="relative w-9 h-9 rounded-full bg-gray-100 hover:bg-gray-200 transition-colors flex items-center justify-center"
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+      >
+        <span className="text-lg">🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-12 bg-white rounded-lg shadow-lg border w-80 max-h-[28rem] overflow-y-auto">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-bold text-gray-800">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={markAllRead} className="text-xs text-green-600 hover:text-green-700 font-medium">
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">
+              {loading ? 'Loading...' : 'Nothing yet. Overtakes, replies and likes will show up here.'}
+            </p>
+          ) : (
+            notifications.map(notification => (
+              <Link
+                key={notification.id}
+                to={linkFor(notification)}
+                onClick={() => markRead(notification)}
+                className={`block px-4 py-3 hover:bg-gray-50 ${notification.read ? '' : 'bg-green-50'}`}
+              >
+                <p className="text-sm text-gray-600">{describe(notification)}</p>
+                {notification.comment?.content && (
+                  <p className="text-xs text-gray-500 truncate mt-0.5">"{notification.comment.content}"</p>
+                )}
+                <p className="text-xs text-gray-400 mt-0.5">{timeAgo(notification.createdAt)}</p>
+              </Link>
+            ))
+          )}
+          {nextCursor && (
+            <button
+              onClick={() => fetchPage(nextCursor)}
+              disabled={loading}
+              className="w-full py-2 text-sm text-green-600 hover:text-green-700 font-medium disabled:opacity-50 border-t"
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 import { useState, useEffect } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import ListeningActivity from '../components/ListeningActivity';
+import Badges, { Badge } from '../components/Badges';
+import Comments, { Comment } from '../components/Comments';
 
 const avatarEmoji: Record<string, string> = {
   goat: '🐐',
@@ -12,6 +16,26 @@ const avatarEmoji: Record<string, string> = {
   rabbit: '🐰'
 };
 
+const rangeOptions = [
+  { key: 'all', label: 'All time' },
+  { key: 'week', label: 'This week' },
+  { key: 'month', label: 'This month' },
+  { key: 'year', label: 'This year' }
+];
+
+const FIRST_SPOTIFY_YEAR = 2008;
+
+const calendarYears = Array.from(
+  { length: new Date().getFullYear() - FIRST_SPOTIFY_YEAR + 1 },
+  (_, i) => String(new Date().getFullYear() - i)
+);
+
+function rangeLabel(range: string, from: string | null, to: string | null) {
+  if (/^\d{4}$/.test(range)) return `of ${range}`;
+  if (range === 'custom') return `${from || '…'} – ${to || '…'}`;
+  return rangeOptions.find(o => o.key === range)?.label.toLowerCase() || 'all time';
+}
+
 interface LeaderboardEntry {
   rank: number;
   userId: number;
@@ -19,76 +43,106 @@ interface LeaderboardEntry {
   avatar: string;
   minutes: number;
   songCount: number;
+  badges: Badge[];
   isCurrentUser: boolean;
 }
 
-interface Comment {
-  id: number;
-  content: string;
-  likes: number;
-  createdAt: string;
-  username: string;
-  avatar: string;
+interface ViewerStanding {
+  rank: number;
+  minutes: number;
+  songCount: number;
+  minutesBehindNext: number | null;
+  nextUsername: string | null;
 }
 
 interface ArtistData {
-  artist: { name: string };
+  artist: { id: number; name: string; imageUrl: string | null; genres: string[]; aliases: string[] };
   leaderboard: LeaderboardEntry[];
+  nextCursor: string | null;
+  totalListeners: number;
+  viewer: ViewerStanding | null;
   comments: Comment[];
+  commentsNextCursor: string | null;
 }
 
 export default function ArtistLeaderboard() {
   const { artistId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const range = searchParams.get('range') || 'all';
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  const showAll = searchParams.get('view') === 'all';
   const [data, setData] = useState<ArtistData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [newComment, setNewComment] = useState('');
-  const [submitting, setSubmitting] = useState(false);
+  const [allEntries, setAllEntries] = useState<LeaderboardEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const rangeQuery = () => {
+    const hasCustomDates = Boolean(from || to);
+    const params = new URLSearchParams({ range: range === 'custom' && !hasCustomDates ? 'all' : range });
+    if (range === 'custom') {
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+    }
+    return params;
+  };
 
   const fetchData = () => {
     if (!artistId) return;
     setLoading(true);
-    fetch(`/api/artist/${encodeURIComponent(artistId)}`)
+    fetch(`/api/artist/${encodeURIComponent(artistId)}?${rangeQuery()}`)
       .then(res => res.json())
-      .then(setData)
+      .then(result => {
+        setData(result.error ? null : result);
+        if (!result.error) {
+          setAllEntries(result.leaderboard);
+          setNextCursor(result.nextCursor);
+          if (String(result.artist.id) !== artistId) {
+            navigate({ pathname: `/artist/${result.artist.id}`, search: searchParams.toString() }, { replace: true });
+          }
+        }
+      })
       .catch(console.error)
       .finally(() => setLoading(false));
   };
 
   useEffect(() => {
     fetchData();
-  }, [artistId]);
-
-  const handleSubmitComment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newComment.trim() || !artistId) return;
-    
-    setSubmitting(true);
-    try {
-      const res = await fetch(`/api/artist/${encodeURIComponent(artistId)}/comment`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ content: newComment })
-      });
-      const comment = await res.json();
-      setData(prev => prev ? { ...prev, comments: [comment, ...prev.comments] } : prev);
-      setNewComment('');
-    } catch (err) {
-      console.error(err);
-    }
-    setSubmitting(false);
+  }, [artistId, range, from, to]);
+
+  const loadMore = () => {
+    if (!artistId || !nextCursor) return;
+    setLoadingMore(true);
+    const params = rangeQuery();
+    params.set('cursor', nextCursor);
+    fetch(`/api/artist/${encodeURIComponent(artistId)}/leaderboard?${params}`)
+      .then(res => res.json())
+      .then(result => {
+        if (result.error) return;
+        setAllEntries(prev => [...prev, ...result.leaderboard]);
+        setNextCursor(result.nextCursor);
+      })
+      .catch(console.error)
+      .finally(() => setLoadingMore(false));
   };
 
-  const handleLike = async (commentId: number) => {
-    try {
-      const res = await fetch(`/api/comment/${commentId}/like`, { method: 'POST' });
-      const { likes } = await res.json();
-      setData(prev => prev ? {
-        ...prev,
-        comments: prev.comments.map(c => c.id === commentId ? { ...c, likes } : c)
-      } : prev);
-    } catch (err) {
-      console.error(err);
+  const selectRange = (key: string, extra: Record<string, string> = {}) => {
+    const params: Record<string, string> = key === 'all' ? {} : { range: key, ...extra };
+    if (showAll) params.view = 'all';
+    setSearchParams(params);
+  };
+
+  const setShowAll = (value: boolean) => {
+    const params = new URLSearchParams(searchParams);
+    if (value) {
+      params.set('view', 'all');
+    } else {
+      params.delete('view');
     }
+    setSearchParams(params);
   };
 
   if (loading) {
@@ -99,35 +153,96 @@ export default function ArtistLeaderboard() {
     return <div className="text-center py-12 text-gray-500">Artist not found</div>;
   }
 
-  const timeAgo = (date: string) => {
-    const diff = Date.now() - new Date(date).getTime();
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    if (hours < 1) return 'just now';
-    if (hours < 24) return `${hours}h ago`;
-    const days = Math.floor(hours / 24);
-    return `${days}d ago`;
-  };
+  const entries = showAll ? allEntries : data.leaderboard;
+  const viewerShown = entries.some(entry => entry.isCurrentUser);
 
   return (
     <div className="space-y-6">
       <div className="bg-white/70 backdrop-blur rounded-2xl p-8 shadow-sm text-center">
-        <div className="w-24 h-24 bg-gradient-to-br from-gray-300 to-gray-400 rounded-full mx-auto mb-4 flex items-center justify-center">
-          <span className="text-4xl">🎤</span>
-        </div>
+        {data.artist.imageUrl ? (
+          <img src={data.artist.imageUrl} alt={data.artist.name} className="w-24 h-24 rounded-full mx-auto mb-4 object-cover" />
+        ) : (
+          <div className="w-24 h-24 bg-gradient-to-br from-gray-300 to-gray-400 rounded-full mx-auto mb-4 flex items-center justify-center">
+            <span className="text-4xl">🎤</span>
+          </div>
+        )}
         <h1 className="text-2xl font-bold text-gray-800">{data.artist.name}</h1>
+        {data.artist.aliases.length > 0 && (
+          <p className="text-sm text-gray-400">Also credited as {data.artist.aliases.join(', ')}</p>
+        )}
         <p className="text-gray-500">Artist Leaderboard</p>
+        {data.artist.genres.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2 mt-3">
+            {data.artist.genres.map(genre => (
+              <span key={genre} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{genre}</span>
+            ))}
+          </div>
+        )}
       </div>
 
       <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
         <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
           <span>👑</span> Top Listeners
+          <span className="text-sm font-normal text-gray-500">{rangeLabel(range, from, to)}</span>
         </h2>
-        
-        {data.leaderboard.length === 0 ? (
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {rangeOptions.map(option => (
+            <button
+              key={option.key}
+              onClick={() => selectRange(option.key)}
+              className={`px-3 py-1 rounded-full text-sm ${
+                range === option.key ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <select
+            value={/^\d{4}$/.test(range) ? range : ''}
+            onChange={(e) => e.target.value && selectRange(e.target.value)}
+            className={`px-3 py-1 rounded-full text-sm border-none focus:outline-none ${
+              /^\d{4}$/.test(range) ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            <option value="">Year…</option>
+            {calendarYears.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => selectRange('custom', { from: from || '', to: to || '' })}
+            className={`px-3 py-1 rounded-full text-sm ${
+              range === 'custom' ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            Custom
+          </button>
+        </div>
+
+        {range === 'custom' && (
+          <div className="flex items-center gap-2 mb-4 text-sm">
+            <input
+              type="date"
+              value={from || ''}
+              onChange={(e) => selectRange('custom', { from: e.target.value, to: to || '' })}
+              className="px-3 py-1 rounded-lg bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-400"
+            />
+            <span className="text-gray-400">to</span>
+            <input
+              type="date"
+              value={to || ''}
+              onChange={(e) => selectRange('custom', { from: from || '', to: e.target.value })}
+              className="px-3 py-1 rounded-lg bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-400"
+            />
+          </div>
+        )}
+
+        {entries.length === 0 ? (
           <p className="text-center text-gray-500 py-8">No listeners yet. Be the first!</p>
         ) : (
           <div className="space-y-3">
-            {data.leaderboard.map((entry) => (
+            {entries.map((entry) => (
               <Link
                 key={entry.userId}
                 to={entry.isCurrentUser ? '/profile' : `/profile/${entry.userId}`}
@@ -150,6 +265,7 @@ export default function ArtistLeaderboard() {
                   <p className="font-medium text-gray-800 flex items-center gap-2">
                     {entry.username}
                     {entry.rank === 1 && <img src="/herd-logo.png" alt="GOAT" className="w-5 h-5" />}
+                    <Badges badges={entry.badges} />
                     {entry.isCurrentUser && (
                       <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">You</span>
                     )}
@@ -162,57 +278,73 @@ export default function ArtistLeaderboard() {
             ))}
           </div>
         )}
-      </div>
 
-      <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
-        <h2 className="text-lg font-bold text-gray-800 mb-4">Fan Comments</h2>
-        
-        <form onSubmit={handleSubmitComment} className="flex gap-3 mb-6">
-          <div className="w-10 h-10 bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center text-xl flex-shrink-0">
-            🐐
+        {user && data.viewer && !viewerShown && (
+          <Link
+            to="/profile"
+            className="flex items-center gap-4 p-3 mt-3 rounded-xl bg-green-50 border border-green-200"
+          >
+            <div className="w-8 h-8 rounded-full flex items-center justify-center bg-green-500 text-white font-bold text-xs">
+              {data.viewer.rank}
+            </div>
+            <div className="flex-1">
+              <p className="font-medium text-gray-800">You are #{data.viewer.rank.toLocaleString()}</p>
+              <p className="text-sm text-gray-500">
+                {data.viewer.minutes.toLocaleString()} min · {data.viewer.songCount.toLocaleString()} songs
+                {data.viewer.minutesBehindNext !== null && (
+                  <> · {data.viewer.minutesBehindNext.toLocaleString()} min behind #{data.viewer.rank - 1} {data.viewer.nextUsername}</>
+                )}
+              </p>
+            </div>
+          </Link>
+        )}
+
+        {showAll ? (
+          <div className="flex justify-between items-center mt-4">
+            <button
+              onClick={() => setShowAll(false)}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              ← Back to top 10
+            </button>
+            {nextCursor && (
+              <button
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="px-4 py-2 bg-green-500 text-white rounded-full text-sm disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
-          <input
-            type="text"
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            placeholder="Share your thoughts..."
-            className="flex-1 px-4 py-2 rounded-full bg-gray-100 focus:outline-none focus:ring-2 focus:ring-green-400"
-          />
+        ) : data.totalListeners > data.leaderboard.length && (
           <button
-            type="submit"
-            disabled={submitting || !newComment.trim()}
-            className="w-10 h-10 bg-green-500 text-white rounded-full flex items-center justify-center disabled:opacity-50"
+            onClick={() => setShowAll(true)}
+            className="w-full mt-4 text-sm text-green-600 hover:text-green-700 font-medium"
           >
-            ➤
+            See all {data.totalListeners.toLocaleString()} listeners →
           </button>
-        </form>
-
-        <div className="space-y-4">
-          {data.comments.map(comment => (
-            <div key={comment.id} className="flex gap-3">
-              <div className="w-10 h-10 bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center text-xl flex-shrink-0">
-                {avatarEmoji[comment.avatar] || '🐐'}
-              </div>
-              <div className="flex-1">
-                <p className="text-sm">
-                  <span className="font-medium text-gray-800">{comment.username}</span>
-                  <span className="text-gray-400 ml-2">{timeAgo(comment.createdAt)}</span>
-                </p>
-                <p className="text-gray-700">{comment.content}</p>
-                <button
-                  onClick={() => handleLike(comment.id)}
-                  className="text-sm text-gray-400 hover:text-red-500 mt-1 flex items-center gap-1"
-                >
-                  ❤️ {comment.likes > 0 && comment.likes}
-                </button>
-              </div>
-            </div>
-          ))}
-          {data.comments.length === 0 && (
-            <p className="text-center text-gray-500 py-4">No comments yet. Be the first to share!</p>
-          )}
-        </div>
+        )}
       </div>
+
+      {!showAll && user && (
+        <ListeningActivity
+          userId={user.id}
+          artistId={data.artist.id}
+          title="Your listening of this artist over time"
+          showHeatmap={false}
+        />
+      )}
+
+      {!showAll && (
+        <Comments
+          key={data.artist.id}
+          listUrl={`/api/artist/${data.artist.id}/comments`}
+          postUrl={`/api/artist/${data.artist.id}/comment`}
+          initialComments={data.comments}
+          initialNextCursor={data.commentsNextCursor}
+        />
+      )}
     </div>
   );
 }
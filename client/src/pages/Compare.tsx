@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+
+const avatarEmoji: Record<string, string> = {
+  goat: '🐐',
+  cow: '🐄',
+  sheep: '🐑',
+  pig: '🐷',
+  horse: '🐴',
+  chicken: '🐔',
+  duck: '🦆',
+  rabbit: '🐰'
+};
+
+interface CompareUser {
+  id: number;
+  username: string;
+  avatar: string;
+}
+
+interface SharedItem {
+  key: string;
+  name: string;
+  detail?: string;
+  to: string | null;
+  imageUrl: string | null;
+  minutesA: number;
+  minutesB: number;
+}
+
+interface CompareData {
+  userA: CompareUser;
+  userB: CompareUser;
+  score: number;
+  sharedArtistCount: number;
+  totalMinutesA: number;
+  totalMinutesB: number;
+  sharedArtists: Array<{ id: number; name: string; imageUrl: string | null; minutesA: number; minutesB: number }>;
+  sharedSongs: Array<{ name: string; artist: string | null; artistId: number | null; albumImageUrl: string | null; minutesA: number; minutesB: number }>;
+  onlyA: Array<{ id: number; name: string; imageUrl: string | null; minutes: number }>;
+  onlyB: Array<{ id: number; name: string; imageUrl: string | null; minutes: number }>;
+}
+
+function scoreLabel(score: number) {
+  if (score >= 60) return 'Same herd';
+  if (score >= 30) return 'Grazing nearby';
+  if (score >= 10) return 'Neighbouring fields';
+  return 'Different pastures';
+}
+
+function SharedList({ title, emoji, items }: { title: string; emoji: string; items: SharedItem[] }) {
+  if (items.length === 0) {
+    return null;
+  }
+  const max = Math.max(...items.flatMap(i => [i.minutesA, i.minutesB]), 1);
+
+  return (
+    <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+      <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <span>{emoji}</span> {title}
+      </h2>
+      <div className="space-y-3">
+        {items.map(item => {
+          const content = (
+            <>
+              <div className="flex-1 flex justify-end">
+                <div className="h-2 bg-green-400 rounded-l" style={{ width: `${(item.minutesA / max) * 100}%` }} />
+              </div>
+              <div className="w-44 flex items-center gap-2 min-w-0">
+                {item.imageUrl ? (
+                  <img src={item.imageUrl} alt={item.name} className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                ) : (
+                  <div className="w-8 h-8 bg-gray-200 rounded flex items-center justify-center text-sm flex-shrink-0">{emoji}</div>
+                )}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800 truncate">{item.name}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {item.detail ? `${item.detail} · ` : ''}{item.minutesA.toLocaleString()} / {item.minutesB.toLocaleString()} min
+                  </p>
+                </div>
+              </div>
+              <div className="flex-1">
+                <div className="h-2 bg-blue-400 rounded-r" style={{ width: `${(item.minutesB / max) * 100}%` }} />
+              </div>
+            </>
+          );
+          return item.to ? (
+            <Link key={item.key} to={item.to} className="flex items-center gap-3 p-1 rounded-lg hover:bg-white/50">
+              {content}
+            </Link>
+          ) : (
+            <div key={item.key} className="flex items-center gap-3 p-1">{content}</div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function OnlyList({ username, artists }: { username: string; artists: CompareData['onlyA'] }) {
+  return (
+    <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+      <h3 className="font-bold text-gray-800 mb-3">Only {username}</h3>
+      {artists.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing the other hasn't heard</p>
+      ) : (
+        <div className="space-y-2">
+          {artists.map(artist => (
+            <Link key={artist.id} to={`/artist/${artist.id}`} className="flex justify-between text-sm hover:underline">
+              <span className="text-gray-700 truncate">{artist.name}</span>
+              <span className="text-gray-400 flex-shrink-0 ml-2">{artist.minutes.toLocaleString()} min</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Compare() {
+  const { userA, userB } = useParams();
+  const [data, setData] = useState<CompareData | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userA || !userB) return;
+    setLoading(true);
+    fetch(`/api/compare/${encodeURIComponent(userA)}/${encodeURIComponent(userB)}`)
+      .then(res => res.json())
+      .then(result => {
+        if (result.error) {
+          setError(result.error);
+          setData(null);
+        } else {
+          setError('');
+          setData(result);
+        }
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [userA, userB]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!data) {
+    return <div className="text-center py-12 text-gray-500">{error || 'Comparison not available'}</div>;
+  }
+
+  const profileLink = (user: CompareUser, minutes: number) => (
+    <Link to={`/profile/${user.id}`} className="flex flex-col items-center gap-2 flex-1 min-w-0">
+      <div className="w-16 h-16 bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center text-3xl">
+        {avatarEmoji[user.avatar] || '🐐'}
+      </div>
+      <p className="font-bold text-gray-800 truncate max-w-full">{user.username}</p>
+      <p className="text-xs text-gray-500">{minutes.toLocaleString()} min</p>
+    </Link>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+        <div className="flex items-center gap-4">
+          {profileLink(data.userA, data.totalMinutesA)}
+          <div className="text-center flex-shrink-0">
+            <p className="text-5xl font-extrabold text-green-600">{data.score}%</p>
+            <p className="text-sm font-medium text-gray-700">{scoreLabel(data.score)}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {data.sharedArtistCount.toLocaleString()} {data.sharedArtistCount === 1 ? 'artist' : 'artists'} in common
+            </p>
+          </div>
+          {profileLink(data.userB, data.totalMinutesB)}
+        </div>
+        <div className="flex justify-between text-xs text-gray-400 mt-4">
+          <span className="flex items-center gap-1"><span className="w-3 h-2 bg-green-400 rounded" /> {data.userA.username}</span>
+          <span className="flex items-center gap-1">{data.userB.username} <span className="w-3 h-2 bg-blue-400 rounded" /></span>
+        </div>
+      </div>
+
+      <SharedList
+        title="Shared Artists"
+        emoji="🎤"
+        items={data.sharedArtists.map(artist => ({
+          key: String(artist.id),
+          name: artist.name,
+          to: `/artist/${artist.id}`,
+          imageUrl: artist.imageUrl,
+          minutesA: artist.minutesA,
+          minutesB: artist.minutesB
+        }))}
+      />
+
+      <SharedList
+        title="Shared Songs"
+        emoji="🎵"
+        items={data.sharedSongs.map(song => ({
+          key: `${song.name}-${song.artist}`,
+          name: song.name,
+          detail: song.artist || undefined,
+          to: song.artistId ? `/artist/${song.artistId}` : null,
+          imageUrl: song.albumImageUrl,
+          minutesA: song.minutesA,
+          minutesB: song.minutesB
+        }))}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <OnlyList username={data.userA.username} artists={data.onlyA} />
+        <OnlyList username={data.userB.username} artists={data.onlyB} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import Badges, { Badge } from '../components/Badges';
+
+const avatarEmoji: Record<string, string> = {
+  goat: '🐐',
+  cow: '🐄',
+  sheep: '🐑',
+  pig: '🐷',
+  horse: '🐴',
+  chicken: '🐔',
+  duck: '🦆',
+  rabbit: '🐰'
+};
+
+type ContentKind = 'show' | 'audiobook';
+
+const contentConfig: Record<ContentKind, { title: string; icon: string; itemLabel: string }> = {
+  show: { title: 'Podcast Leaderboard', icon: '🎙️', itemLabel: 'episodes' },
+  audiobook: { title: 'Audiobook Leaderboard', icon: '📚', itemLabel: 'chapters' }
+};
+
+interface LeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  avatar: string;
+  minutes: number;
+  itemCount: number;
+  badges: Badge[];
+  isCurrentUser: boolean;
+}
+
+type ContentData = {
+  leaderboard: LeaderboardEntry[];
+} & Partial<Record<ContentKind, { name: string }>>;
+
+export default function ContentLeaderboard({ kind }: { kind: ContentKind }) {
+  const { name } = useParams();
+  const [data, setData] = useState<ContentData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const config = contentConfig[kind];
+
+  useEffect(() => {
+    if (!name) return;
+    setLoading(true);
+    fetch(`/api/${kind}/${encodeURIComponent(name)}`)
+      .then(res => res.json())
+      .then(setData)
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [kind, name]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!data) {
+    return <div className="text-center py-12 text-gray-500">Not found</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/70 backdrop-blur rounded-2xl p-8 shadow-sm text-center">
+        <div className="w-24 h-24 bg-gradient-to-br from-gray-300 to-gray-400 rounded-full mx-auto mb-4 flex items-center justify-center">
+          <span className="text-4xl">{config.icon}</span>
+        </div>
+        <h1 className="text-2xl font-bold text-gray-800">{data[kind]?.name || name}</h1>
+        <p className="text-gray-500">{config.title}</p>
+      </div>
+
+      <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+        <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+          <span>👑</span> Top Listeners
+        </h2>
+
+        {data.leaderboard.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No listeners yet. Be the first!</p>
+        ) : (
+          <div className="space-y-3">
+            {data.leaderboard.map((entry) => (
+              <Link
+                key={entry.userId}
+                to={entry.isCurrentUser ? '/profile' : `/profile/${entry.userId}`}
+                className={`flex items-center gap-4 p-3 rounded-xl transition ${
+                  entry.isCurrentUser ? 'bg-green-50 border border-green-200' : 'hover:bg-white/50'
+                }`}
+              >
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-bold text-sm ${
+                  entry.rank === 1 ? 'bg-yellow-500' :
+                  entry.rank === 2 ? 'bg-gray-400' :
+                  entry.rank === 3 ? 'bg-amber-600' :
+                  'bg-gray-300'
+                }`}>
+                  {entry.rank}
+                </div>
+                <div className="w-10 h-10 bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center text-xl">
+                  {avatarEmoji[entry.avatar] || '🐐'}
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-800 flex items-center gap-2">
+                    {entry.username}
+                    {entry.rank === 1 && <img src="/herd-logo.png" alt="GOAT" className="w-5 h-5" />}
+                    <Badges badges={entry.badges} />
+                    {entry.isCurrentUser && (
+                      <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">You</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {entry.minutes.toLocaleString()} min · {entry.itemCount.toLocaleString()} {config.itemLabel}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { Badge } from '../components/Badges';
+
+const avatarEmoji: Record<string, string> = {
+  goat: '🐐',
+  cow: '🐄',
+  sheep: '🐑',
+  pig: '🐷',
+  horse: '🐴',
+  chicken: '🐔',
+  duck: '🦆',
+  rabbit: '🐰'
+};
+
+interface FeedItem {
+  id: number;
+  type: 'upload' | 'achievement_earned' | 'achievement_lost' | 'comment';
+  createdAt: string;
+  user: { id: number; username: string; avatar: string };
+  artist: { id: number; name: string; imageUrl: string | null } | null;
+  upload: { files: number; records: number } | null;
+  achievement: Badge | null;
+  byUser: { id: number; username: string } | null;
+  comment: { id: number; content: string } | null;
+  profileUser: { id: number; username: string } | null;
+}
+
+const timeAgo = (date: string) => {
+  const diff = Date.now() - new Date(date).getTime();
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  if (hours < 1) return 'just now';
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+};
+
+function describe(item: FeedItem) {
+  const artistLink = item.artist && (
+    <Link to={`/artist/${item.artist.id}`} className="font-medium text-gray-800 hover:underline">{item.artist.name}</Link>
+  );
+  const isCrown = item.achievement?.code === 'goat';
+
+  switch (item.type) {
+    case 'upload':
+      return (
+        <>
+          uploaded {item.upload!.records.toLocaleString()} new plays
+          {item.upload!.files > 1 && ` from ${item.upload!.files} files`}
+        </>
+      );
+    case 'achievement_earned':
+      return isCrown ? (
+        <>took the 👑 crown for {artistLink}</>
+      ) : (
+        <>earned {item.achievement?.icon} {item.achievement?.name}{artistLink && <> for {artistLink}</>}</>
+      );
+    case 'achievement_lost':
+      return isCrown ? (
+        <>
+          lost the crown for {artistLink}
+          {item.byUser && (
+            <> to <Link to={`/profile/${item.byUser.id}`} className="font-medium text-gray-800 hover:underline">{item.byUser.username}</Link></>
+          )}
+        </>
+      ) : (
+        <>lost {item.achievement?.icon} {item.achievement?.name}</>
+      );
+    case 'comment':
+      return item.profileUser ? (
+        <>
+          wrote on{' '}
+          <Link to={`/profile/${item.profileUser.id}`} className="font-medium text-gray-800 hover:underline">{item.profileUser.username}</Link>'s wall
+        </>
+      ) : (
+        <>commented on {artistLink}</>
+      );
+  }
+}
+
+export default function Feed() {
+  const { user, loading: authLoading } = useAuth();
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const fetchPage = (cursor: string | null) => {
+    const params = cursor ? `?cursor=${encodeURIComponent(cursor)}` : '';
+    return fetch(`/api/feed${params}`, { credentials: 'include' })
+      .then(res => res.json())
+      .then(result => {
+        if (result.error) return;
+        setItems(prev => cursor ? [...prev, ...result.items] : result.items);
+        setNextCursor(result.nextCursor);
+      })
+      .catch(console.error);
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+    fetchPage(null).finally(() => setLoading(false));
+  }, [user, authLoading]);
+
+  const loadMore = () => {
+    setLoadingMore(true);
+    fetchPage(nextCursor).finally(() => setLoadingMore(false));
+  };
+
+  if (loading || authLoading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!user) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600 mb-4">Log in to see what the fans you follow are up to.</p>
+        <Link to="/login" className="inline-block bg-green-500 text-white px-6 py-3 rounded-lg font-medium">
+          Log In
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+      <h1 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <span>📰</span> Your Feed
+      </h1>
+
+      {items.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          Nothing here yet. Follow fans from their profiles to see their uploads, crowns, badges and comments.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {items.map(item => (
+            <div key={item.id} className="flex gap-3">
+              <Link
+                to={`/profile/${item.user.id}`}
+                className="w-10 h-10 bg-gradient-to-br from-blue-200 to-green-200 rounded-full flex items-center justify-center text-xl flex-shrink-0"
+              >
+                {avatarEmoji[item.user.avatar] || '🐐'}
+              </Link>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-600">
+                  <Link to={`/profile/${item.user.id}`} className="font-medium text-gray-800 hover:underline">
+                    {item.user.username}
+                  </Link>{' '}
+                  {describe(item)}
+                  <span className="text-gray-400 ml-2">{timeAgo(item.createdAt)}</span>
+                </p>
+                {item.comment && (
+                  <p className="text-gray-700 mt-1 bg-gray-50 rounded-lg px-3 py-2">{item.comment.content}</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nextCursor && (
+        <button
+          onClick={loadMore}
+          disabled={loadingMore}
+          className="w-full mt-6 text-sm text-green-600 hover:text-green-700 font-medium disabled:opacity-50"
+        >
+          {loadingMore ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import ListeningActivity from '../components/ListeningActivity';
+import Comments, { Comment } from '../components/Comments';
 
 const avatarEmoji: Record<string, string> = {
   goat: '🐐',
@@ -19,28 +22,72 @@ interface UserData {
     avatar: string;
     createdAt: string;
   };
+  followerCount: number;
+  followingCount: number;
+  isFollowing: boolean;
+  commentWallEnabled: boolean;
+  comments: Comment[];
+  commentsNextCursor: string | null;
   stats: {
     totalMinutes: number;
     totalSongs: number;
   };
-  topArtists: Array<{ name: string; minutes: number; plays: number }>;
-  topSongs: Array<{ name: string; artist: string; minutes: number; plays: number }>;
+  years: number[];
+  achievements: Array<{
+    code: string;
+    name: string;
+    icon: string;
+    description: string;
+    artistId: number | null;
+    artistName: string | null;
+    earnedAt: string;
+  }>;
+  topArtists: Array<{ id: number; name: string; imageUrl: string | null; minutes: number; plays: number }>;
+  topSongs: Array<{ name: string; artist: string; artistId: number | null; albumImageUrl: string | null; minutes: number; plays: number }>;
+  topGenres: Array<{ name: string; minutes: number; artists: Array<{ id: number; name: string; minutes: number }> }>;
+  topShows: Array<{ name: string; minutes: number; plays: number }>;
+  topAudiobooks: Array<{ name: string; minutes: number; plays: number }>;
 }
 
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
 export default function OtherUserProfile() {
   const { userId } = useParams();
+  const { user: authUser } = useAuth();
   const [data, setData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [expandedGenre, setExpandedGenre] = useState<string | null>(null);
+  const [followPending, setFollowPending] = useState(false);
 
   useEffect(() => {
     if (!userId) return;
-    fetch(`/api/user/${encodeURIComponent(userId)}`)
+    fetch(`/api/user/${encodeURIComponent(userId)}`, { credentials: 'include' })
       .then(res => res.json())
       .then(setData)
       .catch(console.error)
       .finally(() => setLoading(false));
   }, [userId]);
 
+  const toggleFollow = async () => {
+    if (!data) return;
+    setFollowPending(true);
+    try {
+      const res = await fetch(`/api/user/${data.user.id}/follow`, {
+        method: data.isFollowing ? 'DELETE' : 'POST',
+        credentials: 'include'
+      });
+      if (res.ok) {
+        const result = await res.json();
+        setData({ ...data, isFollowing: result.following, followerCount: result.followerCount });
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setFollowPending(false);
+    }
+  };
+
   if (loading) {
     return <div className="text-center py-12">Loading...</div>;
   }
@@ -61,7 +108,35 @@ export default function OtherUserProfile() {
             <p className="text-gray-500 text-sm">
               Member since {new Date(data.user.createdAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
             </p>
+            <p className="text-gray-500 text-sm mt-1">
+              <span className="font-medium text-gray-800">{data.followerCount.toLocaleString()}</span> {data.followerCount === 1 ? 'follower' : 'followers'}
+              {' · '}
+              <span className="font-medium text-gray-800">{data.followingCount.toLocaleString()}</span> following
+            </p>
           </div>
+          {authUser ? authUser.id !== data.user.id && (
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={toggleFollow}
+                disabled={followPending}
+                className={`px-4 py-2 rounded-full text-sm font-medium disabled:opacity-50 ${
+                  data.isFollowing ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-green-500 text-white hover:bg-green-600'
+                }`}
+              >
+                {data.isFollowing ? 'Following' : 'Follow'}
+              </button>
+              <Link
+                to={`/compare/${authUser.id}/${data.user.id}`}
+                className="px-4 py-2 bg-white border border-green-500 text-green-600 rounded-full text-sm font-medium text-center hover:bg-green-50"
+              >
+                Compare with you
+              </Link>
+            </div>
+          ) : (
+            <Link to="/login" className="text-sm text-green-600 hover:underline">
+              Log in to compare
+            </Link>
+          )}
         </div>
       </div>
 
@@ -84,6 +159,58 @@ export default function OtherUserProfile() {
         </div>
       </div>
 
+      {data.years.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🎁</span> Wrapped
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {data.years.map(year => (
+              <Link
+                key={year}
+                to={`/profile/${data.user.id}/wrapped/${year}`}
+                className="px-4 py-2 rounded-full bg-gradient-to-r from-green-500 to-emerald-600 text-white text-sm font-medium hover:from-green-600 hover:to-emerald-700"
+              >
+                {year}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.achievements.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🏅</span> Badges
+          </h2>
+          <div className="grid grid-cols-2 gap-3">
+            {data.achievements.map(achievement => (
+              <div
+                key={`${achievement.code}-${achievement.artistId}`}
+                title={achievement.description}
+                className="flex items-center gap-3 p-3 rounded-xl bg-white/50"
+              >
+                <span className="text-2xl">{achievement.icon}</span>
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {achievement.name}
+                    {achievement.artistId && achievement.artistName && (
+                      <>
+                        {' · '}
+                        <Link to={`/artist/${achievement.artistId}`} className="hover:underline">{achievement.artistName}</Link>
+                      </>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">Earned {formatDate(achievement.earnedAt)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ListeningActivity userId={data.user.id} title="Listening Activity" />
+
       <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
         <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
           <span>🏆</span> Top Artists
@@ -91,14 +218,18 @@ export default function OtherUserProfile() {
         <div className="space-y-3">
           {data.topArtists.map((artist, i) => (
             <Link
-              key={artist.name}
-              to={`/artist/${encodeURIComponent(artist.name)}`}
+              key={artist.id}
+              to={`/artist/${artist.id}`}
               className="flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition"
             >
               <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
-              <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
-                <span className="text-gray-500 text-lg">🎤</span>
-              </div>
+              {artist.imageUrl ? (
+                <img src={artist.imageUrl} alt={artist.name} className="w-12 h-12 rounded-full object-cover" />
+              ) : (
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">🎤</span>
+                </div>
+              )}
               <div className="flex-1">
                 <p className="font-medium text-gray-800">{artist.name}</p>
                 <p className="text-sm text-gray-500">{artist.minutes.toLocaleString()} minutes</p>
@@ -109,6 +240,47 @@ export default function OtherUserProfile() {
         </div>
       </div>
 
+      {data.topGenres.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🎼</span> Top Genres
+          </h2>
+          <div className="space-y-3">
+            {data.topGenres.map((genre, i) => (
+              <div key={genre.name}>
+                <button
+                  onClick={() => setExpandedGenre(expandedGenre === genre.name ? null : genre.name)}
+                  className="w-full flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition text-left"
+                >
+                  <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-800 capitalize">{genre.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {genre.minutes.toLocaleString()} minutes · {genre.artists.length} {genre.artists.length === 1 ? 'artist' : 'artists'}
+                    </p>
+                  </div>
+                  <span className="text-gray-400">{expandedGenre === genre.name ? '⌄' : '›'}</span>
+                </button>
+                {expandedGenre === genre.name && (
+                  <div className="ml-10 mt-1 space-y-1">
+                    {genre.artists.map(artist => (
+                      <Link
+                        key={artist.id}
+                        to={`/artist/${artist.id}`}
+                        className="flex justify-between px-3 py-1.5 rounded-lg text-sm hover:bg-white/50"
+                      >
+                        <span className="text-gray-700">{artist.name}</span>
+                        <span className="text-gray-500">{artist.minutes.toLocaleString()} min</span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
         <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
           <span>🎧</span> Top Songs
@@ -117,9 +289,13 @@ export default function OtherUserProfile() {
           {data.topSongs.map((song, i) => (
             <div key={`${song.name}-${song.artist}`} className="flex items-center gap-4 p-3 rounded-xl">
               <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
-              <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
-                <span className="text-gray-500 text-lg">🎵</span>
-              </div>
+              {song.albumImageUrl ? (
+                <img src={song.albumImageUrl} alt={song.name} className="w-12 h-12 rounded-lg object-cover" />
+              ) : (
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">🎵</span>
+                </div>
+              )}
               <div className="flex-1">
                 <p className="font-medium text-gray-800">{song.name}</p>
                 <p className="text-sm text-gray-500">{song.artist} • {song.minutes.toLocaleString()} minutes</p>
@@ -128,6 +304,73 @@ export default function OtherUserProfile() {
           ))}
         </div>
       </div>
+
+      {data.topShows.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🎙️</span> Top Podcasts
+          </h2>
+          <div className="space-y-3">
+            {data.topShows.map((show, i) => (
+              <Link
+                key={show.name}
+                to={`/show/${encodeURIComponent(show.name)}`}
+                className="flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition"
+              >
+                <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">🎙️</span>
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-800">{show.name}</p>
+                  <p className="text-sm text-gray-500">{show.minutes.toLocaleString()} minutes</p>
+                </div>
+                <span className="text-gray-400">›</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.topAudiobooks.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>📚</span> Top Audiobooks
+          </h2>
+          <div className="space-y-3">
+            {data.topAudiobooks.map((book, i) => (
+              <Link
+                key={book.name}
+                to={`/audiobook/${encodeURIComponent(book.name)}`}
+                className="flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition"
+              >
+                <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">📚</span>
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-800">{book.name}</p>
+                  <p className="text-sm text-gray-500">{book.minutes.toLocaleString()} minutes</p>
+                </div>
+                <span className="text-gray-400">›</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.commentWallEnabled ? (
+        <Comments
+          key={data.user.id}
+          title={`${data.user.username}'s Wall`}
+          listUrl={`/api/user/${data.user.id}/comments`}
+          postUrl={`/api/user/${data.user.id}/comment`}
+          initialComments={data.comments}
+          initialNextCursor={data.commentsNextCursor}
+        />
+      ) : (
+        <p className="text-center text-sm text-gray-500">{data.user.username} has turned off their wall.</p>
+      )}
     </div>
   );
 }
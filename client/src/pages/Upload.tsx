@@ -1,24 +1,131 @@
-import { useState, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useCallback, useEffect } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+
+interface UploadFileResult {
+  name: string;
+  status: 'imported' | 'skipped' | 'error';
+  recordsImported?: number;
+  duplicatesSkipped?: number;
+  recordsSkipped?: Record<string, number>;
+  recordsMalformed?: number;
+  reason?: string;
+  error?: string;
+}
+
+interface ImportJob {
+  id: number;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  filesTotal: number;
+  filesProcessed: number;
+  recordsInserted: number;
+  recordsDuplicate: number;
+  recordsRejected: number;
+  files: UploadFileResult[];
+  errors: string[];
+}
+
+const JOB_POLL_INTERVAL_MS = 1000;
+
+const skipReasonLabels: Record<string, string> = {
+  zero_playtime: 'never played',
+  no_content: 'no track, episode or chapter'
+};
+
+function describeFileResult(file: UploadFileResult) {
+  if (file.status !== 'imported') {
+    return [file.reason || file.error || ''];
+  }
+  const parts = [`${file.recordsImported!.toLocaleString()} new`];
+  if (file.duplicatesSkipped) {
+    parts.push(`${file.duplicatesSkipped.toLocaleString()} duplicates`);
+  }
+  Object.entries(file.recordsSkipped || {}).forEach(([reason, count]) => {
+    if (count > 0) {
+      parts.push(`${count.toLocaleString()} skipped: ${skipReasonLabels[reason] || reason}`);
+    }
+  });
+  if (file.recordsMalformed) {
+    parts.push(`${file.recordsMalformed.toLocaleString()} malformed`);
+  }
+  return parts;
+}
+
+// The same rule the server applies to loose files and ZIP members, so an
+// extracted export folder only sends its streaming history.
+const isAcceptedFile = (name: string) =>
+  /\.zip$/i.test(name) || /Streaming_History_(Audio|Video).*\.json$/i.test(name);
+
+function readEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise(resolve => {
+      (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([]));
+    });
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    return new Promise(resolve => {
+      const readBatch = () => reader.readEntries(batch => {
+        if (batch.length === 0) {
+          Promise.all(entries.map(readEntryFiles)).then(lists => resolve(lists.flat()));
+        } else {
+          entries.push(...batch);
+          readBatch();
+        }
+      }, () => resolve([]));
+      readBatch();
+    });
+  }
+  return Promise.resolve([]);
+}
 
 export default function Upload() {
   const [files, setFiles] = useState<File[]>([]);
   const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
   const [uploading, setUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
-  const [result, setResult] = useState<{ success: boolean; recordsImported: number } | null>(null);
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [job, setJob] = useState<ImportJob | null>(null);
   const navigate = useNavigate();
+  const { user, loading: authLoading, signup } = useAuth();
+
+  const jobFinished = job?.status === 'completed' || job?.status === 'failed';
+
+  useEffect(() => {
+    if (jobId === null || jobFinished) return;
+
+    const poll = setInterval(() => {
+      fetch(`/api/import-jobs/${jobId}`, { credentials: 'include' })
+        .then(res => res.json())
+        .then(data => {
+          if (data.error) {
+            setError(data.error);
+          } else {
+            setJob(data);
+          }
+        })
+        .catch(console.error);
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(poll);
+  }, [jobId, jobFinished]);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    const droppedFiles = Array.from(e.dataTransfer.files).filter(f => f.name.endsWith('.json'));
-    setFiles(prev => [...prev, ...droppedFiles]);
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    const droppedFiles = (await Promise.all(entries.map(readEntryFiles))).flat();
+    setFiles(prev => [...prev, ...droppedFiles.filter(f => isAcceptedFile(f.name))]);
   }, []);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const selectedFiles = Array.from(e.target.files).filter(f => f.name.endsWith('.json'));
+      const selectedFiles = Array.from(e.target.files).filter(f => isAcceptedFile(f.name));
       setFiles(prev => [...prev, ...selectedFiles]);
     }
   };
@@ -30,41 +137,125 @@ export default function Upload() {
   const handleUpload = async () => {
     if (files.length === 0) return;
     
+    setError('');
     setUploading(true);
+
+    if (!user) {
+      const signupResult = await signup(username.trim(), password || undefined);
+      if (!signupResult.success) {
+        setError(signupResult.error || 'Signup failed');
+        setUploading(false);
+        return;
+      }
+    }
+
     const formData = new FormData();
     files.forEach(file => formData.append('files', file));
-    if (username.trim()) {
-      formData.append('username', username.trim());
-    }
 
     try {
       const res = await fetch('/api/upload', {
         method: 'POST',
+        credentials: 'include',
         body: formData
       });
       const data = await res.json();
-      setResult(data);
-      if (data.success) {
-        setTimeout(() => navigate('/profile'), 2000);
+      if (!res.ok) {
+        setError(data.error || 'Upload failed');
+      } else {
+        setJobId(data.jobId);
       }
     } catch (err) {
       console.error(err);
+      setError('Network error');
     }
     setUploading(false);
   };
 
-  if (result?.success) {
+  if (authLoading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (jobId !== null && !jobFinished) {
+    const percent = job && job.filesTotal > 0 ? Math.round((job.filesProcessed / job.filesTotal) * 100) : 0;
     return (
       <div className="max-w-lg mx-auto text-center py-12">
         <div className="bg-white/70 backdrop-blur rounded-2xl p-8 shadow-sm">
-          <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-6 text-4xl">
-            ✓
+          <div className="text-4xl mb-6">🐐</div>
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">Importing your history...</h1>
+          <p className="text-gray-600 mb-6">
+            {job?.status === 'running'
+              ? `Processed ${job.filesProcessed} of ${job.filesTotal} files`
+              : 'Waiting in the queue'}
+          </p>
+          <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden mb-4">
+            <div
+              className="h-full bg-gradient-to-r from-emerald-500 to-green-600 transition-all"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-500">
+            {(job?.recordsInserted || 0).toLocaleString()} records imported so far
+          </p>
+          {error && <p className="text-red-600 text-sm mt-4">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  if (job && jobFinished) {
+    return (
+      <div className="max-w-lg mx-auto text-center py-12">
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-8 shadow-sm">
+          <div className={`w-20 h-20 rounded-full flex items-center justify-center mx-auto mb-6 text-4xl ${
+            job.status === 'completed' ? 'bg-green-100' : 'bg-red-100'
+          }`}>
+            {job.status === 'completed' ? '✓' : '!'}
           </div>
-          <h1 className="text-2xl font-bold text-gray-800 mb-2">Upload Complete!</h1>
+          <h1 className="text-2xl font-bold text-gray-800 mb-2">
+            {job.status === 'failed'
+              ? 'Import Failed'
+              : job.errors.length > 0 ? 'Upload Finished With Problems' : 'Upload Complete!'}
+          </h1>
           <p className="text-gray-600 mb-4">
-            Successfully imported {result.recordsImported.toLocaleString()} streaming records.
+            {job.status === 'failed'
+              ? job.recordsInserted > 0
+                ? `Only ${job.recordsInserted.toLocaleString()} streaming records were imported before the import stopped.`
+                : 'None of your streaming records could be imported.'
+              : `Successfully imported ${job.recordsInserted.toLocaleString()} streaming records.`}
           </p>
-          <p className="text-gray-500">Redirecting to your profile...</p>
+          {job.recordsDuplicate > 0 && (
+            <p className="text-gray-500 text-sm mb-4">
+              {job.recordsDuplicate.toLocaleString()} records were already in your history and were skipped.
+            </p>
+          )}
+          {job.recordsRejected > 0 && (
+            <p className="text-gray-500 text-sm mb-4">
+              {job.recordsRejected.toLocaleString()} records were skipped or malformed and were left out.
+            </p>
+          )}
+          {job.errors.length > 0 && (
+            <div className="mb-4 text-left">
+              {job.errors.map((message, i) => (
+                <p key={i} className="text-red-600 text-sm">{message}</p>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2 mb-6 text-left max-h-60 overflow-y-auto">
+            {job.files.map((file, i) => (
+              <div key={i} className="bg-gray-50 px-3 py-2 rounded-lg text-sm">
+                <p className="truncate font-medium text-gray-700">
+                  {file.status === 'imported' ? '✅' : file.status === 'skipped' ? '⏭️' : '⚠️'} {file.name}
+                </p>
+                <p className="text-gray-500 text-xs">{describeFileResult(file).join(' · ')}</p>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => navigate('/profile')}
+            className="bg-green-500 hover:bg-green-600 text-white px-6 py-3 rounded-xl font-medium"
+          >
+            View My Profile
+          </button>
         </div>
       </div>
     );
@@ -73,21 +264,41 @@ export default function Upload() {
   return (
     <div className="max-w-lg mx-auto">
       <div className="bg-white/70 backdrop-blur rounded-2xl p-8 shadow-sm">
-        <h1 className="text-2xl font-bold text-gray-800 mb-2 text-center">Join Herd</h1>
+        <h1 className="text-2xl font-bold text-gray-800 mb-2 text-center">
+          {user ? 'Upload Your History' : 'Join Herd'}
+        </h1>
         <p className="text-gray-600 text-center mb-6">
-          Upload your Spotify Extended Streaming History to get started
+          {user
+            ? `Add Spotify Extended Streaming History to ${user.username}'s profile`
+            : 'Create an account and upload your Spotify Extended Streaming History to get started'}
         </p>
 
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-2">Your Username</label>
-          <input
-            type="text"
-            value={username}
-            onChange={(e) => setUsername(e.target.value)}
-            placeholder="Enter your display name"
-            className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-green-400"
-          />
-        </div>
+        {!user && (
+          <div className="mb-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Your Username</label>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Enter your display name"
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-green-400"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Secure your account"
+                className="w-full px-4 py-3 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-green-400"
+              />
+            </div>
+          </div>
+        )}
 
         <div
           onDrop={handleDrop}
@@ -98,18 +309,30 @@ export default function Upload() {
           }`}
         >
           <div className="text-4xl mb-4">📁</div>
-          <p className="text-gray-600 mb-2">Drag & drop your JSON files here</p>
+          <p className="text-gray-600 mb-2">Drag & drop my_spotify_data.zip, the extracted folder or JSON files here</p>
           <p className="text-gray-400 text-sm mb-4">or</p>
-          <label className="inline-block bg-green-500 hover:bg-green-600 text-white px-6 py-2 rounded-lg cursor-pointer">
-            Browse Files
-            <input
-              type="file"
-              multiple
-              accept=".json"
-              onChange={handleFileSelect}
-              className="hidden"
-            />
-          </label>
+          <div className="flex justify-center gap-3">
+            <label className="inline-block bg-green-500 hover:bg-green-600 text-white px-6 py-2 rounded-lg cursor-pointer">
+              Browse Files
+              <input
+                type="file"
+                multiple
+                accept=".json,.zip"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </label>
+            <label className="inline-block bg-white border border-green-500 text-green-600 hover:bg-green-50 px-6 py-2 rounded-lg cursor-pointer">
+              Browse Folder
+              <input
+                type="file"
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
+                {...{ webkitdirectory: '' }}
+              />
+            </label>
+          </div>
         </div>
 
         {files.length > 0 && (
@@ -128,14 +351,25 @@ export default function Upload() {
           </div>
         )}
 
+        {error && (
+          <p className="text-red-600 text-sm mb-4 text-center">{error}</p>
+        )}
+
         <button
           onClick={handleUpload}
-          disabled={files.length === 0 || uploading}
+          disabled={files.length === 0 || uploading || (!user && username.trim().length < 2)}
           className="w-full bg-green-500 hover:bg-green-600 disabled:bg-gray-300 text-white py-3 rounded-xl font-medium"
         >
-          {uploading ? 'Uploading...' : 'Upload & Join Herd'}
+          {uploading ? 'Uploading...' : user ? 'Upload' : 'Sign Up & Upload'}
         </button>
 
+        {!user && (
+          <p className="text-sm text-gray-500 text-center mt-4">
+            Already have an account?{' '}
+            <Link to="/login" className="text-green-600 font-medium">Log in</Link> first to add to your profile.
+          </p>
+        )}
+
         <p className="text-xs text-gray-400 text-center mt-4">
           You can request your Extended Streaming History from Spotify's Privacy Settings
         </p>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
+import ListeningActivity from '../components/ListeningActivity';
+import Comments, { Comment } from '../components/Comments';
 
 const AVATARS = ['goat', 'cow', 'sheep', 'pig', 'horse', 'chicken', 'duck', 'rabbit'];
 
@@ -22,35 +24,116 @@ interface UserData {
     avatar: string;
     createdAt: string;
   };
+  followerCount: number;
+  followingCount: number;
+  isFollowing: boolean;
+  commentWallEnabled: boolean;
+  comments: Comment[];
+  commentsNextCursor: string | null;
   stats: {
     totalMinutes: number;
     totalSongs: number;
   };
-  topArtists: Array<{ name: string; minutes: number; plays: number }>;
-  topSongs: Array<{ name: string; artist: string; minutes: number; plays: number }>;
+  years: number[];
+  achievements: Array<{
+    code: string;
+    name: string;
+    icon: string;
+    description: string;
+    artistId: number | null;
+    artistName: string | null;
+    earnedAt: string;
+  }>;
+  topArtists: Array<{ id: number; name: string; imageUrl: string | null; minutes: number; plays: number }>;
+  topSongs: Array<{ name: string; artist: string; artistId: number | null; albumImageUrl: string | null; minutes: number; plays: number }>;
+  topGenres: Array<{ name: string; minutes: number; artists: Array<{ id: number; name: string; minutes: number }> }>;
+  topShows: Array<{ name: string; minutes: number; plays: number }>;
+  topAudiobooks: Array<{ name: string; minutes: number; plays: number }>;
 }
 
+interface UploadRecord {
+  id: number;
+  filename: string;
+  recordCount: number;
+  firstPlayedAt: string | null;
+  lastPlayedAt: string | null;
+  uploadedAt: string;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
 export default function UserProfile() {
   const { user: authUser, loading: authLoading, setPassword } = useAuth();
   const navigate = useNavigate();
   const [data, setData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [expandedGenre, setExpandedGenre] = useState<string | null>(null);
   const [showAvatars, setShowAvatars] = useState(false);
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [newPassword, setNewPassword] = useState('');
   const [passwordError, setPasswordError] = useState('');
+  const [uploads, setUploads] = useState<UploadRecord[]>([]);
+  const [wallPending, setWallPending] = useState(false);
   
-  useEffect(() => {
-    if (authLoading) return;
-    
+  const fetchProfile = () => {
     const userId = authUser?.id || '';
-    fetch(`/api/user/${userId}`, { credentials: 'include' })
+    return fetch(`/api/user/${userId}`, { credentials: 'include' })
       .then(res => res.json())
       .then(setData)
-      .catch(console.error)
-      .finally(() => setLoading(false));
+      .catch(console.error);
+  };
+
+  const fetchUploads = () => {
+    fetch('/api/me/uploads', { credentials: 'include' })
+      .then(res => res.json())
+      .then(data => Array.isArray(data) && setUploads(data))
+      .catch(console.error);
+  };
+
+  useEffect(() => {
+    if (authLoading) return;
+    
+    fetchProfile().finally(() => setLoading(false));
+    if (authUser) {
+      fetchUploads();
+    }
   }, [authUser, authLoading]);
 
+  const toggleCommentWall = async () => {
+    if (!data) return;
+    setWallPending(true);
+    try {
+      const res = await fetch('/api/me/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ commentWallEnabled: !data.commentWallEnabled })
+      });
+      if (res.ok) {
+        await fetchProfile();
+      }
+    } catch (err) {
+      console.error(err);
+    }
+    setWallPending(false);
+  };
+
+  const handleDeleteUpload = async (upload: UploadRecord) => {
+    if (!confirm(`Remove ${upload.filename}? Its ${upload.recordCount.toLocaleString()} plays will leave every leaderboard.`)) {
+      return;
+    }
+    try {
+      const res = await fetch(`/api/me/uploads/${upload.id}`, { method: 'DELETE', credentials: 'include' });
+      if (res.ok) {
+        setUploads(prev => prev.filter(u => u.id !== upload.id));
+        fetchProfile();
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
   const handleSetPassword = async (e: React.FormEvent) => {
     e.preventDefault();
     setPasswordError('');
@@ -121,6 +204,11 @@ export default function UserProfile() {
             <p className="text-gray-500 text-sm">
               Member since {new Date(data.user.createdAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
             </p>
+            <p className="text-gray-500 text-sm mt-1">
+              <span className="font-medium text-gray-800">{data.followerCount.toLocaleString()}</span> {data.followerCount === 1 ? 'follower' : 'followers'}
+              {' · '}
+              <span className="font-medium text-gray-800">{data.followingCount.toLocaleString()}</span> following
+            </p>
           </div>
         </div>
         
@@ -158,6 +246,58 @@ export default function UserProfile() {
         </div>
       </div>
 
+      {data.years.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🎁</span> Your Wrapped
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {data.years.map(year => (
+              <Link
+                key={year}
+                to={`/profile/${data.user.id}/wrapped/${year}`}
+                className="px-4 py-2 rounded-full bg-gradient-to-r from-green-500 to-emerald-600 text-white text-sm font-medium hover:from-green-600 hover:to-emerald-700"
+              >
+                {year}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.achievements.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🏅</span> Your Badges
+          </h2>
+          <div className="grid grid-cols-2 gap-3">
+            {data.achievements.map(achievement => (
+              <div
+                key={`${achievement.code}-${achievement.artistId}`}
+                title={achievement.description}
+                className="flex items-center gap-3 p-3 rounded-xl bg-white/50"
+              >
+                <span className="text-2xl">{achievement.icon}</span>
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-800 truncate">
+                    {achievement.name}
+                    {achievement.artistId && achievement.artistName && (
+                      <>
+                        {' · '}
+                        <Link to={`/artist/${achievement.artistId}`} className="hover:underline">{achievement.artistName}</Link>
+                      </>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">Earned {formatDate(achievement.earnedAt)}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ListeningActivity userId={data.user.id} title="Your Listening" />
+
       <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
         <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
           <span>🏆</span> Top Artists
@@ -165,14 +305,18 @@ export default function UserProfile() {
         <div className="space-y-3">
           {data.topArtists.map((artist, i) => (
             <Link
-              key={artist.name}
-              to={`/artist/${encodeURIComponent(artist.name)}`}
+              key={artist.id}
+              to={`/artist/${artist.id}`}
               className="flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition"
             >
               <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
-              <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
-                <span className="text-gray-500 text-lg">🎤</span>
-              </div>
+              {artist.imageUrl ? (
+                <img src={artist.imageUrl} alt={artist.name} className="w-12 h-12 rounded-full object-cover" />
+              ) : (
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">🎤</span>
+                </div>
+              )}
               <div className="flex-1">
                 <p className="font-medium text-gray-800">{artist.name}</p>
                 <p className="text-sm text-gray-500">{artist.minutes.toLocaleString()} minutes</p>
@@ -183,6 +327,47 @@ export default function UserProfile() {
         </div>
       </div>
 
+      {data.topGenres.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🎼</span> Top Genres
+          </h2>
+          <div className="space-y-3">
+            {data.topGenres.map((genre, i) => (
+              <div key={genre.name}>
+                <button
+                  onClick={() => setExpandedGenre(expandedGenre === genre.name ? null : genre.name)}
+                  className="w-full flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition text-left"
+                >
+                  <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-800 capitalize">{genre.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {genre.minutes.toLocaleString()} minutes · {genre.artists.length} {genre.artists.length === 1 ? 'artist' : 'artists'}
+                    </p>
+                  </div>
+                  <span className="text-gray-400">{expandedGenre === genre.name ? '⌄' : '›'}</span>
+                </button>
+                {expandedGenre === genre.name && (
+                  <div className="ml-10 mt-1 space-y-1">
+                    {genre.artists.map(artist => (
+                      <Link
+                        key={artist.id}
+                        to={`/artist/${artist.id}`}
+                        className="flex justify-between px-3 py-1.5 rounded-lg text-sm hover:bg-white/50"
+                      >
+                        <span className="text-gray-700">{artist.name}</span>
+                        <span className="text-gray-500">{artist.minutes.toLocaleString()} min</span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
         <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
           <span>🎧</span> Top Songs
@@ -191,9 +376,13 @@ export default function UserProfile() {
           {data.topSongs.map((song, i) => (
             <div key={`${song.name}-${song.artist}`} className="flex items-center gap-4 p-3 rounded-xl">
               <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
-              <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
-                <span className="text-gray-500 text-lg">🎵</span>
-              </div>
+              {song.albumImageUrl ? (
+                <img src={song.albumImageUrl} alt={song.name} className="w-12 h-12 rounded-lg object-cover" />
+              ) : (
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">🎵</span>
+                </div>
+              )}
               <div className="flex-1">
                 <p className="font-medium text-gray-800">{song.name}</p>
                 <p className="text-sm text-gray-500">{song.artist} • {song.minutes.toLocaleString()} minutes</p>
@@ -203,6 +392,126 @@ export default function UserProfile() {
         </div>
       </div>
 
+      {data.topShows.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>🎙️</span> Top Podcasts
+          </h2>
+          <div className="space-y-3">
+            {data.topShows.map((show, i) => (
+              <Link
+                key={show.name}
+                to={`/show/${encodeURIComponent(show.name)}`}
+                className="flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition"
+              >
+                <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">🎙️</span>
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-800">{show.name}</p>
+                  <p className="text-sm text-gray-500">{show.minutes.toLocaleString()} minutes</p>
+                </div>
+                <span className="text-gray-400">›</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.topAudiobooks.length > 0 && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+          <h2 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+            <span>📚</span> Top Audiobooks
+          </h2>
+          <div className="space-y-3">
+            {data.topAudiobooks.map((book, i) => (
+              <Link
+                key={book.name}
+                to={`/audiobook/${encodeURIComponent(book.name)}`}
+                className="flex items-center gap-4 p-3 rounded-xl hover:bg-white/50 transition"
+              >
+                <span className="w-6 text-gray-500 font-medium">{i + 1}</span>
+                <div className="w-12 h-12 bg-gradient-to-br from-gray-200 to-gray-300 rounded-full flex items-center justify-center">
+                  <span className="text-gray-500 text-lg">📚</span>
+                </div>
+                <div className="flex-1">
+                  <p className="font-medium text-gray-800">{book.name}</p>
+                  <p className="text-sm text-gray-500">{book.minutes.toLocaleString()} minutes</p>
+                </div>
+                <span className="text-gray-400">›</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {authUser && (
+        <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <span>🧱</span> Your Wall
+            </h2>
+            <p className="text-sm text-gray-500">Let other fans comment on your profile</p>
+          </div>
+          <button
+            onClick={toggleCommentWall}
+            disabled={wallPending}
+            role="switch"
+            aria-checked={data.commentWallEnabled}
+            className={`w-12 h-7 rounded-full p-1 flex-shrink-0 transition disabled:opacity-50 ${data.commentWallEnabled ? 'bg-green-500' : 'bg-gray-300'}`}
+          >
+            <span className={`block w-5 h-5 bg-white rounded-full shadow transition ${data.commentWallEnabled ? 'translate-x-5' : ''}`} />
+          </button>
+        </div>
+      )}
+
+      {authUser && data.commentWallEnabled && (
+        <Comments
+          key={data.user.id}
+          title="Comments on Your Wall"
+          listUrl={`/api/user/${data.user.id}/comments`}
+          postUrl={`/api/user/${data.user.id}/comment`}
+          initialComments={data.comments}
+          initialNextCursor={data.commentsNextCursor}
+        />
+      )}
+
+      <div className="bg-white/70 backdrop-blur rounded-2xl p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <span>📁</span> My Uploads
+          </h2>
+          <Link to="/upload" className="text-sm text-green-600 font-medium">+ Upload</Link>
+        </div>
+        {uploads.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No uploaded reports yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {uploads.map(upload => (
+              <div key={upload.id} className="flex items-center gap-4 p-3 rounded-xl bg-gray-50">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{upload.filename}</p>
+                  <p className="text-sm text-gray-500">
+                    {upload.recordCount.toLocaleString()} plays
+                    {upload.firstPlayedAt && upload.lastPlayedAt && (
+                      <> · {formatDate(upload.firstPlayedAt)} – {formatDate(upload.lastPlayedAt)}</>
+                    )}
+                    {' '}· uploaded {formatDate(upload.uploadedAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDeleteUpload(upload)}
+                  className="text-sm text-red-500 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {showPasswordModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-2xl p-6 max-w-sm w-full">
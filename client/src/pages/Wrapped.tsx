@@ -0,0 +1,273 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+
+interface RankedItem {
+  name: string;
+  artist?: string;
+  imageUrl?: string | null;
+  minutes: number;
+}
+
+interface WrappedData {
+  user: { id: number; username: string; avatar: string };
+  years: number[];
+  year: number;
+  totalMinutes: number;
+  plays: number;
+  songCount: number;
+  artistCount: number;
+  topArtists: Array<{ id: number; name: string; imageUrl: string | null; minutes: number; plays: number }>;
+  topSongs: Array<{ name: string; artist: string; artistId: number | null; albumImageUrl: string | null; minutes: number; plays: number }>;
+  topAlbums: Array<{ name: string; artist: string; artistId: number | null; imageUrl: string | null; minutes: number; plays: number }>;
+  busiestDay: { date: string; minutes: number; plays: number } | null;
+  newArtists: {
+    count: number;
+    top: Array<{ id: number; name: string; imageUrl: string | null; minutes: number }>;
+  };
+  crowns: Array<{ artistId: number; artistName: string; imageUrl: string | null; minutes: number; listeners: number }>;
+}
+
+const SWIPE_THRESHOLD_PX = 50;
+
+const slideColors = [
+  'from-green-500 to-emerald-700',
+  'from-purple-500 to-indigo-700',
+  'from-pink-500 to-rose-700',
+  'from-orange-400 to-red-600',
+  'from-sky-500 to-blue-700',
+  'from-teal-400 to-cyan-700',
+  'from-yellow-400 to-amber-600',
+  'from-gray-700 to-gray-900'
+];
+
+function RankedList({ items, emoji }: { items: RankedItem[]; emoji: string }) {
+  return (
+    <ol className="space-y-3 w-full max-w-sm">
+      {items.map((item, i) => (
+        <li key={`${item.name}-${item.artist}`} className="flex items-center gap-3 text-left">
+          <span className="w-6 text-2xl font-bold opacity-70">{i + 1}</span>
+          {item.imageUrl ? (
+            <img src={item.imageUrl} alt={item.name} className="w-12 h-12 rounded-lg object-cover" />
+          ) : (
+            <div className="w-12 h-12 bg-white/20 rounded-lg flex items-center justify-center text-xl">{emoji}</div>
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="font-semibold truncate">{item.name}</p>
+            <p className="text-sm opacity-80 truncate">
+              {item.artist ? `${item.artist} · ` : ''}{item.minutes.toLocaleString()} min
+            </p>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function slidesFor(data: WrappedData) {
+  const slides = [
+    <>
+      <p className="text-lg opacity-80">{data.user.username}'s</p>
+      <h1 className="text-5xl font-extrabold my-2">{data.year} Wrapped</h1>
+      <p className="text-lg opacity-80 mt-6">You listened for</p>
+      <p className="text-6xl font-extrabold">{data.totalMinutes.toLocaleString()}</p>
+      <p className="text-lg opacity-80">minutes</p>
+      <p className="text-sm opacity-70 mt-6">
+        {data.plays.toLocaleString()} plays · {data.songCount.toLocaleString()} songs · {data.artistCount.toLocaleString()} artists
+      </p>
+    </>
+  ];
+
+  if (data.topArtists.length > 0) {
+    slides.push(
+      <>
+        <h2 className="text-3xl font-bold mb-6">Your top artists</h2>
+        <RankedList items={data.topArtists} emoji="🎤" />
+      </>
+    );
+  }
+  if (data.topSongs.length > 0) {
+    slides.push(
+      <>
+        <h2 className="text-3xl font-bold mb-6">Your top songs</h2>
+        <RankedList items={data.topSongs.map(s => ({ ...s, imageUrl: s.albumImageUrl }))} emoji="🎵" />
+      </>
+    );
+  }
+  if (data.topAlbums.length > 0) {
+    slides.push(
+      <>
+        <h2 className="text-3xl font-bold mb-6">Your top albums</h2>
+        <RankedList items={data.topAlbums} emoji="💿" />
+      </>
+    );
+  }
+  if (data.busiestDay) {
+    slides.push(
+      <>
+        <h2 className="text-3xl font-bold mb-6">Your biggest day</h2>
+        <p className="text-4xl font-extrabold">
+          {new Date(`${data.busiestDay.date}T00:00:00Z`).toLocaleDateString('en-US', {
+            weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC'
+          })}
+        </p>
+        <p className="text-lg opacity-80 mt-4">
+          {data.busiestDay.minutes.toLocaleString()} minutes across {data.busiestDay.plays.toLocaleString()} plays
+        </p>
+      </>
+    );
+  }
+  if (data.newArtists.count > 0) {
+    slides.push(
+      <>
+        <h2 className="text-3xl font-bold mb-2">New discoveries</h2>
+        <p className="text-lg opacity-80 mb-6">
+          You heard {data.newArtists.count.toLocaleString()} {data.newArtists.count === 1 ? 'artist' : 'artists'} for the first time
+        </p>
+        <RankedList items={data.newArtists.top} emoji="✨" />
+      </>
+    );
+  }
+  slides.push(
+    data.crowns.length > 0 ? (
+      <>
+        <h2 className="text-3xl font-bold mb-2">👑 Crowns</h2>
+        <p className="text-lg opacity-80 mb-6">
+          You were the #1 listener for {data.crowns.length} {data.crowns.length === 1 ? 'artist' : 'artists'} on Herd
+        </p>
+        <RankedList
+          items={data.crowns.slice(0, 5).map(c => ({
+            name: c.artistName,
+            imageUrl: c.imageUrl,
+            minutes: c.minutes,
+            artist: `${c.listeners.toLocaleString()} ${c.listeners === 1 ? 'listener' : 'listeners'}`
+          }))}
+          emoji="👑"
+        />
+      </>
+    ) : (
+      <>
+        <h2 className="text-3xl font-bold mb-2">👑 Crowns</h2>
+        <p className="text-lg opacity-80">No #1 spots this year. There's always next year.</p>
+      </>
+    )
+  );
+  return slides;
+}
+
+export default function Wrapped() {
+  const { userId, year } = useParams();
+  const navigate = useNavigate();
+  const [data, setData] = useState<WrappedData | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [slide, setSlide] = useState(0);
+  const touchStartX = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!userId || !year) return;
+    setLoading(true);
+    setError('');
+    setSlide(0);
+    fetch(`/api/user/${encodeURIComponent(userId)}/wrapped/${encodeURIComponent(year)}`)
+      .then(res => res.json())
+      .then(result => {
+        if (result.error) {
+          setError(result.error);
+          setData(null);
+        } else {
+          setData(result);
+        }
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [userId, year]);
+
+  const slides = data ? slidesFor(data) : [];
+  const last = slides.length + 1;
+  const goTo = (index: number) => setSlide(Math.max(0, Math.min(last - 1, index)));
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setSlide(s => Math.min(last - 1, s + 1));
+      if (e.key === 'ArrowLeft') setSlide(s => Math.max(0, s - 1));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [last]);
+
+  if (loading) {
+    return <div className="text-center py-12">Loading...</div>;
+  }
+
+  if (!data) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p className="mb-4">{error || 'Wrapped not found'}</p>
+        <Link to={`/profile/${userId}`} className="text-green-600 hover:underline">Back to profile</Link>
+      </div>
+    );
+  }
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const dx = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (dx <= -SWIPE_THRESHOLD_PX) goTo(slide + 1);
+    if (dx >= SWIPE_THRESHOLD_PX) goTo(slide - 1);
+  };
+
+  // Tapping the left third goes back, anywhere else goes forward.
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    goTo(e.clientX - rect.left < rect.width / 3 ? slide - 1 : slide + 1);
+  };
+
+  const outro = (
+    <>
+      <h2 className="text-3xl font-bold mb-6">That was {data.year}</h2>
+      <div className="flex flex-wrap justify-center gap-2 mb-6" onClick={e => e.stopPropagation()}>
+        {data.years.map(y => (
+          <button
+            key={y}
+            onClick={() => navigate(`/profile/${data.user.id}/wrapped/${y}`)}
+            className={`px-3 py-1 rounded-full text-sm ${y === data.year ? 'bg-white text-gray-900' : 'bg-white/20 hover:bg-white/30'}`}
+          >
+            {y}
+          </button>
+        ))}
+      </div>
+      <Link
+        to={`/profile/${data.user.id}`}
+        onClick={e => e.stopPropagation()}
+        className="underline opacity-80 hover:opacity-100"
+      >
+        Back to {data.user.username}'s profile
+      </Link>
+    </>
+  );
+
+  return (
+    <div className="max-w-md mx-auto">
+      <div
+        className={`relative h-[70vh] min-h-[480px] rounded-3xl shadow-lg bg-gradient-to-br ${slideColors[slide % slideColors.length]} text-white overflow-hidden select-none cursor-pointer`}
+        onClick={handleClick}
+        onTouchStart={e => { touchStartX.current = e.touches[0].clientX; }}
+        onTouchEnd={handleTouchEnd}
+      >
+        <div className="absolute top-3 left-3 right-3 flex gap-1">
+          {Array.from({ length: last }, (_, i) => (
+            <div key={i} className={`flex-1 h-1 rounded-full ${i <= slide ? 'bg-white' : 'bg-white/30'}`} />
+          ))}
+        </div>
+        <div className="h-full flex flex-col items-center justify-center text-center px-8">
+          {slide < slides.length ? slides[slide] : outro}
+        </div>
+      </div>
+      <div className="flex justify-between mt-4 text-sm text-gray-500">
+        <button onClick={() => goTo(slide - 1)} disabled={slide === 0} className="disabled:opacity-30">‹ Back</button>
+        <span>{slide + 1} / {last}</span>
+        <button onClick={() => goTo(slide + 1)} disabled={slide === last - 1} className="disabled:opacity-30">Next ›</button>
+      </div>
+    </div>
+  );
+}
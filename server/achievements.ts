@@ -0,0 +1,205 @@
+import pool from './db';
+import { recordEvent } from './events';
+
+export interface Badge {
+  code: string;
+  name: string;
+  icon: string;
+}
+
+interface AchievementRule extends Badge {
+  description: string;
+  // Returns (user_id, artist_id) rows that currently qualify, where $1 is the
+  // user whose listening just changed. artist_id is NULL unless the
+  // achievement is earned for a particular artist.
+  qualifying: string;
+  // For achievements that can be lost again: the artist ids whose holders
+  // `qualifying` fully re-decides. Anyone else holding the achievement for
+  // one of these artists loses it. Other achievements are kept once earned.
+  contested?: string;
+}
+
+const GOAT_MIN_LISTENERS = 2;
+const EARLY_ADOPTER_LIMIT = 100;
+
+// Artists the user listens to, plus any they are GOAT of but no longer
+// listen to (after deleting an upload).
+const GOAT_CONTESTED = `
+  SELECT artist_id FROM user_artist_rollups WHERE user_id = $1
+  UNION
+  SELECT artist_id FROM achievements WHERE user_id = $1 AND code = 'goat'
+`;
+
+const RULES: AchievementRule[] = [
+  {
+    code: 'goat',
+    name: 'GOAT',
+    icon: '🐐',
+    description: `#1 all-time listener of an artist with at least ${GOAT_MIN_LISTENERS} listeners`,
+    contested: GOAT_CONTESTED,
+    qualifying: `
+      SELECT DISTINCT ON (r.artist_id) r.user_id, r.artist_id
+      FROM user_artist_rollups r
+      WHERE r.artist_id IN (${GOAT_CONTESTED})
+        AND (SELECT COUNT(*) FROM user_artist_rollups l WHERE l.artist_id = r.artist_id) >= ${GOAT_MIN_LISTENERS}
+      ORDER BY r.artist_id, r.total_ms DESC, r.user_id
+    `
+  },
+  {
+    code: 'hours_1000',
+    name: '1,000 hours',
+    icon: '⏱️',
+    description: 'Listened for 1,000 hours in total',
+    qualifying: `
+      SELECT $1::int as user_id, NULL::int as artist_id
+      FROM user_daily_rollups
+      WHERE user_id = $1
+      HAVING SUM(total_ms) >= 1000 * 3600000::bigint
+    `
+  },
+  {
+    code: 'ten_year_fan',
+    name: '10-year fan',
+    icon: '💍',
+    description: 'Played an artist across ten years or more',
+    qualifying: `
+      SELECT user_id, artist_id
+      FROM streaming_history
+      WHERE user_id = $1 AND artist_id IS NOT NULL
+      GROUP BY user_id, artist_id
+      HAVING MAX(ts) >= MIN(ts) + INTERVAL '10 years'
+    `
+  },
+  {
+    code: 'streak_100',
+    name: '100-day streak',
+    icon: '🔥',
+    description: 'Listened every day for 100 days in a row',
+    // Consecutive days share the same day minus row number.
+    qualifying: `
+      SELECT DISTINCT user_id, NULL::int as artist_id
+      FROM (
+        SELECT user_id, day - (ROW_NUMBER() OVER (ORDER BY day))::int as streak_start
+        FROM user_daily_rollups
+        WHERE user_id = $1
+      ) d
+      GROUP BY user_id, streak_start
+      HAVING COUNT(*) >= 100
+    `
+  },
+  {
+    code: 'early_adopter',
+    name: 'Early adopter',
+    icon: '🌱',
+    description: `One of the first ${EARLY_ADOPTER_LIMIT} members of Herd`,
+    qualifying: `
+      SELECT id as user_id, NULL::int as artist_id
+      FROM users
+      WHERE id = $1 AND id IN (SELECT id FROM users ORDER BY created_at, id LIMIT ${EARLY_ADOPTER_LIMIT})
+    `
+  }
+];
+
+const rulesByCode = new Map(RULES.map(rule => [rule.code, rule]));
+
+export function describeAchievement(code: string): Badge | null {
+  const rule = rulesByCode.get(code);
+  return rule ? { code: rule.code, name: rule.name, icon: rule.icon } : null;
+}
+
+// Awards (and for contested achievements, takes away) badges after the
+// user's listening changes: after an import, a Spotify sync or an upload
+// deletion. Runs every rule in one transaction, recording each badge earned
+// or lost for the feed.
+export async function evaluateAchievements(userId: number) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    for (const rule of RULES) {
+      const lost = rule.contested
+        ? await client.query(`
+            DELETE FROM achievements
+            WHERE code = $2
+              AND artist_id IN (${rule.contested})
+              AND (user_id, artist_id) NOT IN (SELECT user_id, artist_id FROM (${rule.qualifying}) q)
+            RETURNING user_id, artist_id
+          `, [userId, rule.code])
+        : { rows: [] };
+      const earned = await client.query(`
+        INSERT INTO achievements (user_id, code, artist_id)
+        SELECT user_id, $2, artist_id FROM (${rule.qualifying}) q
+        ON CONFLICT DO NOTHING
+        RETURNING user_id, artist_id
+      `, [userId, rule.code]);
+
+      for (const r of earned.rows) {
+        await recordEvent({ userId: r.user_id, type: 'achievement_earned', artistId: r.artist_id, data: { code: rule.code } }, client);
+      }
+      for (const r of lost.rows) {
+        const takenBy = earned.rows.find(e => e.artist_id === r.artist_id);
+        await recordEvent({
+          userId: r.user_id,
+          type: 'achievement_lost',
+          artistId: r.artist_id,
+          data: { code: rule.code, byUserId: takenBy?.user_id ?? null }
+        }, client);
+      }
+    }
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// Everything the user has earned, newest first, for their profile.
+export async function getUserAchievements(userId: number) {
+  const result = await pool.query(`
+    SELECT ach.code, ach.artist_id, a.name as artist_name, ach.earned_at
+    FROM achievements ach
+    LEFT JOIN artists a ON ach.artist_id = a.id
+    WHERE ach.user_id = $1
+    ORDER BY ach.earned_at DESC, ach.id DESC
+  `, [userId]);
+
+  return result.rows
+    .filter(r => rulesByCode.has(r.code))
+    .map(r => {
+      const rule = rulesByCode.get(r.code)!;
+      return {
+        code: rule.code,
+        name: rule.name,
+        icon: rule.icon,
+        description: rule.description,
+        artistId: r.artist_id,
+        artistName: r.artist_name,
+        earnedAt: r.earned_at
+      };
+    });
+}
+
+// Badges to show next to each user's name. Achievements tied to an artist
+// only show on that artist's page.
+export async function getBadges(userIds: number[], artistId: number | null): Promise<Map<number, Badge[]>> {
+  const badges = new Map<number, Badge[]>();
+  if (userIds.length === 0) {
+    return badges;
+  }
+
+  const result = await pool.query(`
+    SELECT DISTINCT user_id, code
+    FROM achievements
+    WHERE user_id = ANY($1) AND (artist_id IS NULL OR artist_id = $2)
+  `, [userIds, artistId]);
+
+  const earned = new Map<number, Set<string>>();
+  for (const r of result.rows) {
+    earned.set(r.user_id, (earned.get(r.user_id) || new Set()).add(r.code));
+  }
+  for (const [userId, codes] of earned) {
+    badges.set(userId, RULES.filter(rule => codes.has(rule.code)).map(({ code, name, icon }) => ({ code, name, icon })));
+  }
+  return badges;
+}
@@ -0,0 +1,88 @@
+import pool from './db';
+
+type Granularity = 'week' | 'month' | 'year';
+
+const PERIOD_FORMATS: Record<Granularity, string> = {
+  week: 'YYYY-MM-DD',
+  month: 'YYYY-MM',
+  year: 'YYYY'
+};
+
+// Minutes per UTC day for the user, from the daily rollups or, when narrowed
+// to one artist, from that artist's plays.
+function dailyTotals(userId: number, artistId: number | null): { sql: string; params: unknown[] } {
+  return artistId === null
+    ? {
+        sql: 'SELECT day, total_ms FROM user_daily_rollups WHERE user_id = $1',
+        params: [userId]
+      }
+    : {
+        sql: `SELECT ts::date as day, SUM(ms_played) as total_ms
+              FROM streaming_history
+              WHERE user_id = $1 AND artist_id = $2
+              GROUP BY ts::date`,
+        params: [userId, artistId]
+      };
+}
+
+// Totals per week (starting Monday), month or year, with empty periods between
+// the first and last play filled in as zero so charts keep an even time axis.
+async function periodTotals(userId: number, artistId: number | null, granularity: Granularity) {
+  const daily = dailyTotals(userId, artistId);
+  const n = daily.params.length;
+  const result = await pool.query(`
+    WITH daily AS (${daily.sql}),
+    bounds AS (SELECT MIN(day) as first_day, MAX(day) as last_day FROM daily)
+    SELECT to_char(p.period, $${n + 2}) as period, COALESCE(SUM(d.total_ms), 0) as total_ms
+    FROM bounds
+    CROSS JOIN generate_series(
+      date_trunc($${n + 1}, bounds.first_day::timestamp),
+      bounds.last_day::timestamp,
+      ('1 ' || $${n + 1})::interval
+    ) as p(period)
+    LEFT JOIN daily d ON date_trunc($${n + 1}, d.day::timestamp) = p.period
+    GROUP BY p.period
+    ORDER BY p.period
+  `, [...daily.params, granularity, PERIOD_FORMATS[granularity]]);
+
+  return result.rows.map(r => ({
+    period: r.period,
+    minutes: Math.round(parseInt(r.total_ms) / 60000)
+  }));
+}
+
+export async function getListeningActivity(userId: number, artistId: number | null) {
+  const daily = dailyTotals(userId, artistId);
+  const dailyQuery = await pool.query(`
+    SELECT to_char(day, 'YYYY-MM-DD') as date, total_ms
+    FROM (${daily.sql}) daily
+    ORDER BY day
+  `, daily.params);
+
+  const hourlyQuery = await pool.query(`
+    SELECT
+      EXTRACT(ISODOW FROM ts)::int - 1 as day_of_week,
+      EXTRACT(HOUR FROM ts)::int as hour,
+      SUM(ms_played) as total_ms
+    FROM streaming_history
+    WHERE user_id = $1 AND ($2::int IS NULL OR artist_id = $2)
+    GROUP BY 1, 2
+  `, [userId, artistId]);
+
+  // Rows are Monday (0) to Sunday (6), columns are hours 0-23, all in UTC.
+  const hourly = Array.from({ length: 7 }, () => Array(24).fill(0));
+  for (const r of hourlyQuery.rows) {
+    hourly[r.day_of_week][r.hour] = Math.round(parseInt(r.total_ms) / 60000);
+  }
+
+  return {
+    daily: dailyQuery.rows.map(r => ({
+      date: r.date,
+      minutes: Math.round(parseInt(r.total_ms) / 60000)
+    })),
+    weekly: await periodTotals(userId, artistId, 'week'),
+    monthly: await periodTotals(userId, artistId, 'month'),
+    yearly: await periodTotals(userId, artistId, 'year'),
+    hourly
+  };
+}
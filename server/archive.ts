@@ -0,0 +1,102 @@
+import yauzl from 'yauzl';
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface ArchiveMember {
+  name: string;
+  path?: string;
+  skipReason?: string;
+}
+
+// Limits on what one archive may expand to. A Spotify export has a few dozen
+// members of at most tens of megabytes each; yauzl checks that each member's
+// actual size matches the size its header declares, so the declared sizes can
+// be trusted for these checks.
+const MAX_ARCHIVE_ENTRIES = 1000;
+const MAX_MEMBER_BYTES = 200 * 1024 * 1024;
+const MAX_EXTRACTED_BYTES = 1024 * 1024 * 1024;
+
+export function isZipFile(name: string) {
+  return name.toLowerCase().endsWith('.zip');
+}
+
+export function isStreamingHistoryFile(name: string) {
+  return /Streaming_History_(Audio|Video).*\.json$/i.test(path.basename(name));
+}
+
+// Extracts the Streaming_History_Audio/Video JSON members of a Spotify export
+// ZIP into destDir. Every other member (the ReadMeFirst PDF, account data) is
+// reported with a skip reason instead. Extracted files get generated names so
+// entry paths inside the archive never touch the filesystem. Archives with too
+// many entries are rejected outright; members too large to extract, or past the
+// total extraction budget, are skipped with a reason.
+export function extractStreamingHistory(zipPath: string, destDir: string): Promise<ArchiveMember[]> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(zipPath, { lazyEntries: true }, (err, zipfile) => {
+      if (err || !zipfile) {
+        return reject(err || new Error('Unable to open archive'));
+      }
+
+      if (zipfile.entryCount > MAX_ARCHIVE_ENTRIES) {
+        zipfile.close();
+        return reject(new Error(`Archive has more than ${MAX_ARCHIVE_ENTRIES} entries`));
+      }
+
+      const members: ArchiveMember[] = [];
+      let extractedBytes = 0;
+
+      zipfile.on('error', reject);
+      zipfile.on('end', () => resolve(members));
+      zipfile.on('entry', (entry: yauzl.Entry) => {
+        const name = path.basename(entry.fileName);
+
+        if (entry.fileName.endsWith('/') || name.startsWith('.') || entry.fileName.startsWith('__MACOSX/')) {
+          zipfile.readEntry();
+          return;
+        }
+
+        if (!isStreamingHistoryFile(name)) {
+          members.push({
+            name,
+            skipReason: name.toLowerCase().endsWith('.pdf') ? 'Documentation file' : 'Not a streaming history file'
+          });
+          zipfile.readEntry();
+          return;
+        }
+
+        if (entry.uncompressedSize > MAX_MEMBER_BYTES) {
+          members.push({ name, skipReason: 'Too large to import' });
+          zipfile.readEntry();
+          return;
+        }
+        if (extractedBytes + entry.uncompressedSize > MAX_EXTRACTED_BYTES) {
+          members.push({ name, skipReason: 'Archive is too large to extract in full' });
+          zipfile.readEntry();
+          return;
+        }
+        extractedBytes += entry.uncompressedSize;
+
+        zipfile.openReadStream(entry, (streamErr, stream) => {
+          if (streamErr) {
+            members.push({ name, skipReason: 'Could not be extracted' });
+            zipfile.readEntry();
+            return;
+          }
+
+          const dest = path.join(destDir, `${uuidv4()}.json`);
+          pipeline(stream, fs.createWriteStream(dest))
+            .then(() => members.push({ name, path: dest }))
+            .catch(() => {
+              fs.rmSync(dest, { force: true });
+              members.push({ name, skipReason: 'Could not be extracted' });
+            })
+            .finally(() => zipfile.readEntry());
+        });
+      });
+
+      zipfile.readEntry();
+    });
+  });
+}
@@ -0,0 +1,115 @@
+import pool from './db';
+
+export interface Artist {
+  id: number;
+  name: string;
+  imageUrl: string | null;
+  genres: string[];
+  aliases: string[];
+}
+
+// Artist routes take an id, but still accept a name so links and bookmarks
+// from before artists had ids keep working; the client swaps the name for
+// the id once it knows it.
+export async function findArtist(idOrName: string): Promise<Artist | null> {
+  const result = /^\d+$/.test(idOrName)
+    ? await pool.query('SELECT id, name, image_url, genres FROM artists WHERE id = $1', [parseInt(idOrName)])
+    : await pool.query(
+        `SELECT a.id, a.name, a.image_url, a.genres FROM artist_aliases aa
+         JOIN artists a ON aa.artist_id = a.id
+         WHERE aa.normalized_name = normalize_artist_name($1)`,
+        [idOrName]
+      );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const artist = result.rows[0];
+  const aliases = await pool.query(
+    'SELECT alias FROM artist_aliases WHERE artist_id = $1 AND alias <> $2 ORDER BY alias',
+    [artist.id, artist.name]
+  );
+  return {
+    id: artist.id,
+    name: artist.name,
+    imageUrl: artist.image_url,
+    genres: artist.genres,
+    aliases: aliases.rows.map(r => r.alias)
+  };
+}
+
+// Records the artist Spotify credits for a track and moves the track's plays,
+// stored and future, to that artist rather than whatever album artist name the
+// export carried. The artist is matched by Spotify id first, then by name; a
+// name already taken by a different Spotify artist gets an artist of its own.
+export async function linkTrackArtist(trackUri: string, spotifyArtistId: string, artistName: string) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    let artist = await client.query('SELECT id FROM artists WHERE spotify_id = $1', [spotifyArtistId]);
+    if (artist.rows.length === 0) {
+      // Resolve once: resolve_artist creates the artist for an unseen name, so
+      // calling it from the UPDATE's WHERE would run it per row scanned.
+      const named = await client.query('SELECT resolve_artist($1) as id', [artistName]);
+      artist = await client.query(
+        'UPDATE artists SET spotify_id = $2 WHERE id = $1 AND spotify_id IS NULL RETURNING id',
+        [named.rows[0].id, spotifyArtistId]
+      );
+    }
+    if (artist.rows.length === 0) {
+      artist = await client.query(
+        'INSERT INTO artists (name, spotify_id) VALUES ($1, $2) RETURNING id',
+        [artistName, spotifyArtistId]
+      );
+    }
+    await client.query(
+      `INSERT INTO track_artists (spotify_track_uri, artist_id) VALUES ($1, $2)
+       ON CONFLICT (spotify_track_uri) DO UPDATE SET artist_id = EXCLUDED.artist_id, updated_at = CURRENT_TIMESTAMP`,
+      [trackUri, artist.rows[0].id]
+    );
+    await client.query(
+      'UPDATE streaming_history SET artist_id = $2 WHERE spotify_track_uri = $1 AND artist_id IS DISTINCT FROM $2',
+      [trackUri, artist.rows[0].id]
+    );
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// Folds one artist into another, e.g. after a rename: its aliases, plays,
+// comments and track links move over (the streaming_history update trigger
+// carries the listening rollups along).
+export async function mergeArtists(fromId: number, intoId: number) {
+  if (fromId === intoId) {
+    throw new Error('Cannot merge an artist into itself');
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const found = await client.query('SELECT id, spotify_id FROM artists WHERE id = ANY($1)', [[fromId, intoId]]);
+    if (found.rows.length !== 2) {
+      throw new Error('Artist not found');
+    }
+    const fromSpotifyId = found.rows.find(r => r.id === fromId).spotify_id;
+    await client.query('UPDATE artist_aliases SET artist_id = $2 WHERE artist_id = $1', [fromId, intoId]);
+    await client.query('UPDATE streaming_history SET artist_id = $2 WHERE artist_id = $1', [fromId, intoId]);
+    await client.query('UPDATE comments SET artist_id = $2 WHERE artist_id = $1', [fromId, intoId]);
+    await client.query('UPDATE track_artists SET artist_id = $2 WHERE artist_id = $1', [fromId, intoId]);
+    await client.query('DELETE FROM artists WHERE id = $1', [fromId]);
+    await client.query(
+      'UPDATE artists SET spotify_id = COALESCE(spotify_id, $2) WHERE id = $1',
+      [intoId, fromSpotifyId]
+    );
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
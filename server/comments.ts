@@ -0,0 +1,257 @@
+import pool from './db';
+import { Badge, getBadges } from './achievements';
+
+export type CommentSort = 'top' | 'new';
+
+// Where a comment lives: an artist page or a fan's profile wall. Replies carry
+// the same target as their thread.
+export type CommentTarget = { artistId: number } | { profileUserId: number };
+
+export interface CommentCursor {
+  likes: number;
+  id: number;
+}
+
+export const COMMENT_PAGE_SIZE = 20;
+
+export function parseCommentSort(value: unknown): CommentSort | null {
+  if (value === undefined) return 'new';
+  return value === 'top' || value === 'new' ? value : null;
+}
+
+// Top-level comments are paged by (likes, id) when sorted by top; when sorted
+// by new the likes half of the cursor is always 0 and only the id matters.
+export function encodeCommentCursor(cursor: CommentCursor): string {
+  return Buffer.from(`${cursor.likes}:${cursor.id}`).toString('base64url');
+}
+
+export function parseCommentCursor(value: unknown): CommentCursor | null {
+  if (typeof value !== 'string') return null;
+  const match = Buffer.from(value, 'base64url').toString().match(/^(\d+):(\d+)$/);
+  if (!match) return null;
+  return { likes: parseInt(match[1]), id: parseInt(match[2]) };
+}
+
+function targetColumn(target: CommentTarget) {
+  return 'artistId' in target
+    ? { column: 'artist_id', id: target.artistId }
+    : { column: 'profile_user_id', id: target.profileUserId };
+}
+
+// Artist-scoped badges such as GOAT only make sense on that artist's page.
+function badgeArtistId(target: CommentTarget) {
+  return 'artistId' in target ? target.artistId : null;
+}
+
+const COMMENT_COLUMNS = `
+  c.id, c.parent_id, c.artist_id, c.profile_user_id, c.content, c.likes, c.created_at, c.edited_at, c.deleted_at,
+  c.user_id, u.username, u.avatar,
+  EXISTS (SELECT 1 FROM comment_likes l WHERE l.comment_id = c.id AND l.user_id = $1) as liked
+`;
+
+function formatComment(row: any, viewerId: number | null, badges: Map<number, Badge[]>) {
+  const deleted = row.deleted_at !== null;
+  return {
+    id: row.id,
+    parentId: row.parent_id,
+    content: deleted ? null : row.content,
+    deleted,
+    likes: row.likes,
+    liked: row.liked,
+    createdAt: row.created_at,
+    editedAt: row.edited_at,
+    userId: row.user_id,
+    username: row.username,
+    avatar: row.avatar,
+    badges: badges.get(row.user_id) || [],
+    isOwn: row.user_id === viewerId,
+    // Authors can delete their comments, and fans anything on their own wall.
+    canDelete: viewerId !== null && (row.user_id === viewerId || row.profile_user_id === viewerId)
+  };
+}
+
+// One page of an artist page's or wall's top-level comments, each with all of
+// its replies (oldest first) and whether the viewer, if signed in, has liked it.
+export async function getComments(
+  target: CommentTarget,
+  viewerId: number | null,
+  sort: CommentSort,
+  cursor: CommentCursor | null,
+  limit: number
+) {
+  const rank = sort === 'top' ? 'c.likes' : '0';
+  const { column, id } = targetColumn(target);
+  const order = sort === 'top' ? 'c.likes DESC, c.id DESC' : 'c.id DESC';
+  const topLevel = await pool.query(`
+    SELECT ${COMMENT_COLUMNS}
+    FROM comments c
+    JOIN users u ON c.user_id = u.id
+    WHERE c.${column} = $2 AND c.parent_id IS NULL
+      AND ($4::int IS NULL OR (${rank}, c.id) < ($3::int, $4))
+    ORDER BY ${order}
+    LIMIT $5
+  `, [viewerId, id, cursor?.likes ?? null, cursor?.id ?? null, limit + 1]);
+
+  const rows = topLevel.rows.slice(0, limit);
+  const replies = await pool.query(`
+    SELECT ${COMMENT_COLUMNS}
+    FROM comments c
+    JOIN users u ON c.user_id = u.id
+    WHERE c.parent_id = ANY($2)
+    ORDER BY c.created_at, c.id
+  `, [viewerId, rows.map(r => r.id)]);
+
+  const badges = await getBadges(
+    [...new Set([...rows, ...replies.rows].map(r => r.user_id))],
+    badgeArtistId(target)
+  );
+  const last = rows[rows.length - 1];
+  return {
+    comments: rows.map(r => ({
+      ...formatComment(r, viewerId, badges),
+      replies: replies.rows
+        .filter(reply => reply.parent_id === r.id)
+        .map(reply => formatComment(reply, viewerId, badges))
+    })),
+    nextCursor: topLevel.rows.length > limit
+      ? encodeCommentCursor({ likes: sort === 'top' ? last.likes : 0, id: last.id })
+      : null
+  };
+}
+
+// A single comment as the viewer sees it, e.g. after posting or editing it.
+export async function getComment(commentId: number, viewerId: number) {
+  const result = await pool.query(`
+    SELECT ${COMMENT_COLUMNS}
+    FROM comments c
+    JOIN users u ON c.user_id = u.id
+    WHERE c.id = $2
+  `, [viewerId, commentId]);
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  const badges = await getBadges([row.user_id], row.artist_id);
+  return { ...formatComment(row, viewerId, badges), replies: [] };
+}
+
+// The thread a reply to `parentId` goes in, or null if that comment isn't on
+// this target or was deleted. Threads are one level deep, so replying to a
+// reply joins its parent's thread.
+export async function findThread(parentId: number, target: CommentTarget) {
+  const { column, id } = targetColumn(target);
+  const result = await pool.query(`
+    SELECT COALESCE(parent_id, id) as thread_id
+    FROM comments
+    WHERE id = $1 AND ${column} = $2 AND deleted_at IS NULL
+  `, [parentId, id]);
+  return result.rows.length > 0 ? result.rows[0].thread_id as number : null;
+}
+
+export async function addComment(target: CommentTarget, userId: number, content: string, threadId: number | null) {
+  const result = await pool.query(`
+    INSERT INTO comments (user_id, artist_id, artist_name, profile_user_id, content, parent_id)
+    VALUES ($1, $2, (SELECT name FROM artists WHERE id = $2), $3, $4, $5)
+    RETURNING id
+  `, [
+    userId,
+    'artistId' in target ? target.artistId : null,
+    'profileUserId' in target ? target.profileUserId : null,
+    content,
+    threadId
+  ]);
+  return result.rows[0].id as number;
+}
+
+export type CommentAction = 'edit' | 'delete' | 'like' | 'report';
+
+export type CommentAccess = { ok: true } | { ok: false; status: 400 | 403 | 404; error: string };
+
+// Whether a signed-in user may act on a comment. Deleted comments are gone for
+// everyone; only the author can edit, the author or the wall's owner can
+// delete, and anyone but the author can report. Comments on a wall its owner
+// has turned off can't be liked or reported, as nobody can see them.
+export async function checkCommentAccess(commentId: number, userId: number, action: CommentAction): Promise<CommentAccess> {
+  const result = await pool.query(`
+    SELECT c.user_id, c.profile_user_id, c.deleted_at, w.comment_wall_enabled as wall_enabled
+    FROM comments c
+    LEFT JOIN users w ON w.id = c.profile_user_id
+    WHERE c.id = $1
+  `, [commentId]);
+  const comment = result.rows[0];
+  if (!comment || comment.deleted_at) {
+    return { ok: false, status: 404, error: 'Comment not found' };
+  }
+  if ((action === 'like' || action === 'report') && comment.wall_enabled === false) {
+    return { ok: false, status: 404, error: 'Comment not found' };
+  }
+  if (action === 'edit' && comment.user_id !== userId) {
+    return { ok: false, status: 403, error: 'You can only edit your own comments' };
+  }
+  if (action === 'delete' && comment.user_id !== userId && comment.profile_user_id !== userId) {
+    return { ok: false, status: 403, error: 'You can only delete your own comments or comments on your wall' };
+  }
+  if (action === 'report' && comment.user_id === userId) {
+    return { ok: false, status: 400, error: 'You cannot report your own comment' };
+  }
+  return { ok: true };
+}
+
+// Likes the comment, or takes the like back if the user already liked it.
+export async function toggleCommentLike(commentId: number, userId: number) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const removed = await client.query(
+      'DELETE FROM comment_likes WHERE comment_id = $1 AND user_id = $2',
+      [commentId, userId]
+    );
+    if (!removed.rowCount) {
+      await client.query(
+        'INSERT INTO comment_likes (comment_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+        [commentId, userId]
+      );
+    }
+    const result = await client.query(
+      'UPDATE comments SET likes = (SELECT COUNT(*) FROM comment_likes WHERE comment_id = $1) WHERE id = $1 RETURNING likes',
+      [commentId]
+    );
+    await client.query('COMMIT');
+    return { likes: result.rows[0].likes as number, liked: !removed.rowCount };
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// A comment with replies is blanked rather than removed so its thread stays
+// readable; removing the last reply under a blanked comment removes it too.
+export async function deleteComment(commentId: number) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const blanked = await client.query(`
+      UPDATE comments SET content = '', deleted_at = CURRENT_TIMESTAMP
+      WHERE id = $1 AND EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = $1)
+    `, [commentId]);
+    if (!blanked.rowCount) {
+      const removed = await client.query('DELETE FROM comments WHERE id = $1 RETURNING parent_id', [commentId]);
+      const parentId = removed.rows[0]?.parent_id;
+      if (parentId) {
+        await client.query(`
+          DELETE FROM comments
+          WHERE id = $1 AND deleted_at IS NOT NULL
+            AND NOT EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = $1)
+        `, [parentId]);
+      }
+    }
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,105 @@
+import pool from './db';
+
+const SHARED_LIMIT = 10;
+const EXCLUSIVE_LIMIT = 5;
+
+// Each user's artists with the share of that user's total listening they
+// account for. $1 and $2 are the two users.
+const ARTIST_SHARES = `
+  WITH a AS (
+    SELECT artist_id, total_ms, total_ms::float / SUM(total_ms) OVER () as share
+    FROM user_artist_rollups
+    WHERE user_id = $1
+  ), b AS (
+    SELECT artist_id, total_ms, total_ms::float / SUM(total_ms) OVER () as share
+    FROM user_artist_rollups
+    WHERE user_id = $2
+  )
+`;
+
+// The compatibility score is the weighted overlap of the two artist
+// distributions: for every shared artist, the smaller of its two shares.
+// Identical taste scores 100, no artists in common scores 0.
+export async function compareUsers(userAId: number, userBId: number) {
+  const params = [userAId, userBId];
+
+  const overlapQuery = await pool.query(`${ARTIST_SHARES}
+    SELECT COALESCE(SUM(LEAST(a.share, b.share)), 0) as overlap, COUNT(*) as shared_artists
+    FROM a JOIN b USING (artist_id)
+  `, params);
+
+  const totalsQuery = await pool.query(`
+    SELECT user_id, SUM(total_ms) as total_ms
+    FROM user_daily_rollups
+    WHERE user_id = ANY($1)
+    GROUP BY user_id
+  `, [params]);
+  const totalMinutes = (userId: number) => {
+    const row = totalsQuery.rows.find(r => r.user_id === userId);
+    return row ? Math.round(parseInt(row.total_ms) / 60000) : 0;
+  };
+
+  const sharedArtistsQuery = await pool.query(`${ARTIST_SHARES}
+    SELECT ar.id, ar.name, ar.image_url, a.total_ms as total_ms_a, b.total_ms as total_ms_b
+    FROM a
+    JOIN b USING (artist_id)
+    JOIN artists ar ON ar.id = a.artist_id
+    ORDER BY LEAST(a.share, b.share) DESC
+    LIMIT ${SHARED_LIMIT}
+  `, params);
+
+  const sharedSongsQuery = await pool.query(`
+    SELECT
+      a.track_name, NULLIF(a.artist_name, '') as artist_name, COALESCE(a.artist_id, b.artist_id) as artist_id,
+      tm.album_image_url, a.total_ms as total_ms_a, b.total_ms as total_ms_b
+    FROM user_track_rollups a
+    JOIN user_track_rollups b ON b.track_name = a.track_name AND b.artist_name = a.artist_name AND b.user_id = $2
+    LEFT JOIN track_metadata tm ON tm.spotify_track_uri = COALESCE(a.spotify_track_uri, b.spotify_track_uri)
+    WHERE a.user_id = $1
+    ORDER BY LEAST(a.total_ms, b.total_ms) DESC
+    LIMIT ${SHARED_LIMIT}
+  `, params);
+
+  // One user's most-played artists that the other has never played.
+  const exclusiveArtists = async (userId: number, otherUserId: number) => {
+    const result = await pool.query(`
+      SELECT ar.id, ar.name, ar.image_url, r.total_ms
+      FROM user_artist_rollups r
+      JOIN artists ar ON ar.id = r.artist_id
+      WHERE r.user_id = $1
+        AND NOT EXISTS (SELECT 1 FROM user_artist_rollups o WHERE o.user_id = $2 AND o.artist_id = r.artist_id)
+      ORDER BY r.total_ms DESC
+      LIMIT ${EXCLUSIVE_LIMIT}
+    `, [userId, otherUserId]);
+    return result.rows.map(r => ({
+      id: r.id,
+      name: r.name,
+      imageUrl: r.image_url,
+      minutes: Math.round(parseInt(r.total_ms) / 60000)
+    }));
+  };
+
+  return {
+    score: Math.round(parseFloat(overlapQuery.rows[0].overlap) * 100),
+    sharedArtistCount: parseInt(overlapQuery.rows[0].shared_artists),
+    totalMinutesA: totalMinutes(userAId),
+    totalMinutesB: totalMinutes(userBId),
+    sharedArtists: sharedArtistsQuery.rows.map(r => ({
+      id: r.id,
+      name: r.name,
+      imageUrl: r.image_url,
+      minutesA: Math.round(parseInt(r.total_ms_a) / 60000),
+      minutesB: Math.round(parseInt(r.total_ms_b) / 60000)
+    })),
+    sharedSongs: sharedSongsQuery.rows.map(r => ({
+      name: r.track_name,
+      artist: r.artist_name,
+      artistId: r.artist_id,
+      albumImageUrl: r.album_image_url,
+      minutesA: Math.round(parseInt(r.total_ms_a) / 60000),
+      minutesB: Math.round(parseInt(r.total_ms_b) / 60000)
+    })),
+    onlyA: await exclusiveArtists(userAId, userBId),
+    onlyB: await exclusiveArtists(userBId, userAId)
+  };
+}
@@ -1,54 +1,69 @@
 import pg from 'pg';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import * as schema from './schema';
 
 const pool = new pg.Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
+export const db = drizzle(pool, { schema });
+
+const MIGRATIONS_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations');
+const MIGRATION_LOCK_ID = 740613;
+
+// Applies every migrations/NNNN_name.sql newer than the last recorded version,
+// in order, each in its own transaction. The advisory lock keeps two server
+// processes booting at once from racing on the same migration.
+export async function runMigrations() {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const applied = await client.query('SELECT version FROM schema_migrations');
+    const appliedVersions = new Set(applied.rows.map(r => r.version));
+
+    const migrations = fs.readdirSync(MIGRATIONS_DIR)
+      .map(file => file.match(/^(\d+)_(.+)\.sql$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({ version: parseInt(match[1]), name: match[2], file: match[0] }))
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of migrations) {
+      if (appliedVersions.has(migration.version)) continue;
+
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, migration.file), 'utf-8');
+      try {
+        await client.query('BEGIN');
+        await client.query(sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+        await client.query('COMMIT');
+        console.log(`Applied migration ${migration.file}`);
+      } catch (e) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migration.file} failed: ${(e as Error).message}`);
+      }
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    client.release();
+  }
+}
+
 export async function initDb() {
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS users (
-      id SERIAL PRIMARY KEY,
-      username VARCHAR(255) UNIQUE NOT NULL,
-      password_hash VARCHAR(255),
-      spotify_id VARCHAR(255),
-      spotify_connected BOOLEAN DEFAULT FALSE,
-      avatar VARCHAR(50) DEFAULT 'goat',
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS streaming_history (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-      ts TIMESTAMP NOT NULL,
-      track_name VARCHAR(500),
-      artist_name VARCHAR(500),
-      album_name VARCHAR(500),
-      ms_played INTEGER DEFAULT 0,
-      spotify_track_uri VARCHAR(255),
-      platform VARCHAR(50),
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS comments (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-      artist_name VARCHAR(500) NOT NULL,
-      content TEXT NOT NULL,
-      likes INTEGER DEFAULT 0,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS comment_likes (
-      id SERIAL PRIMARY KEY,
-      comment_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
-      user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
-      UNIQUE(comment_id, user_id)
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_streaming_history_user ON streaming_history(user_id);
-    CREATE INDEX IF NOT EXISTS idx_streaming_history_artist ON streaming_history(artist_name);
-    CREATE INDEX IF NOT EXISTS idx_comments_artist ON comments(artist_name);
-  `);
+  await runMigrations();
   console.log('Database initialized');
 }
 
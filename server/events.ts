@@ -0,0 +1,21 @@
+import pg from 'pg';
+import pool from './db';
+
+export type ActivityEventType = 'upload' | 'achievement_earned' | 'achievement_lost' | 'comment';
+
+export interface ActivityEvent {
+  userId: number;
+  type: ActivityEventType;
+  artistId?: number | null;
+  commentId?: number | null;
+  data?: Record<string, unknown>;
+}
+
+// Records something a fan did for their followers' feeds (see feed.ts). Takes
+// a client so events written inside a transaction roll back with it.
+export async function recordEvent(event: ActivityEvent, db: pg.Pool | pg.PoolClient = pool) {
+  await db.query(
+    'INSERT INTO activity_events (user_id, type, artist_id, comment_id, data) VALUES ($1, $2, $3, $4, $5)',
+    [event.userId, event.type, event.artistId ?? null, event.commentId ?? null, JSON.stringify(event.data ?? {})]
+  );
+}
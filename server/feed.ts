@@ -0,0 +1,88 @@
+import pool from './db';
+import { describeAchievement } from './achievements';
+import { ActivityEventType } from './events';
+
+export interface FeedCursor {
+  createdAt: string;
+  id: number;
+}
+
+// Like leaderboard cursors, feed cursors point just past the last item shown,
+// here as its (created_at, id), so new events don't shift later pages.
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString('base64url');
+}
+
+export function parseFeedCursor(value: unknown): FeedCursor | null {
+  if (typeof value !== 'string') return null;
+  const match = Buffer.from(value, 'base64url').toString().match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6})\|(\d+)$/);
+  if (!match) return null;
+  return { createdAt: match[1], id: parseInt(match[2]) };
+}
+
+// What the fans `userId` follows have done, newest first.
+export async function getFeed(userId: number, cursor: FeedCursor | null, limit: number) {
+  const result = await pool.query(`
+    SELECT
+      e.id, e.type, e.data, e.created_at,
+      to_char(e.created_at, 'YYYY-MM-DD"T"HH24:MI:SS.US') as cursor_created_at,
+      u.id as user_id, u.username, u.avatar,
+      a.id as artist_id, a.name as artist_name, a.image_url as artist_image_url,
+      c.id as comment_id, c.content as comment_content,
+      wall.id as profile_user_id, wall.username as profile_username,
+      by_user.id as by_user_id, by_user.username as by_username
+    FROM follows f
+    JOIN activity_events e ON e.user_id = f.followee_id
+    JOIN users u ON u.id = e.user_id
+    LEFT JOIN artists a ON a.id = e.artist_id
+    LEFT JOIN comments c ON c.id = e.comment_id
+    LEFT JOIN users wall ON wall.id = c.profile_user_id
+    LEFT JOIN users by_user ON by_user.id = (e.data->>'byUserId')::int
+    WHERE f.follower_id = $1
+      AND c.deleted_at IS NULL
+      AND wall.comment_wall_enabled IS NOT FALSE
+      AND ($2::timestamp IS NULL OR (e.created_at, e.id) < ($2::timestamp, $3))
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT $4
+  `, [userId, cursor?.createdAt ?? null, cursor?.id ?? null, limit + 1]);
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  return {
+    items: rows.map(r => ({
+      id: r.id,
+      type: r.type as ActivityEventType,
+      createdAt: r.created_at,
+      user: {
+        id: r.user_id,
+        username: r.username,
+        avatar: r.avatar
+      },
+      artist: r.artist_id === null ? null : {
+        id: r.artist_id,
+        name: r.artist_name,
+        imageUrl: r.artist_image_url
+      },
+      upload: r.type === 'upload' ? {
+        files: r.data.files ?? 0,
+        records: r.data.records ?? 0
+      } : null,
+      achievement: r.data.code ? describeAchievement(r.data.code) : null,
+      byUser: r.by_user_id === null ? null : {
+        id: r.by_user_id,
+        username: r.by_username
+      },
+      comment: r.comment_id === null ? null : {
+        id: r.comment_id,
+        content: r.comment_content
+      },
+      profileUser: r.profile_user_id === null ? null : {
+        id: r.profile_user_id,
+        username: r.profile_username
+      }
+    })),
+    nextCursor: result.rows.length > limit
+      ? encodeFeedCursor({ createdAt: last.cursor_created_at, id: last.id })
+      : null
+  };
+}
@@ -0,0 +1,299 @@
+import pg from 'pg';
+import fs from 'fs';
+import crypto from 'crypto';
+import StreamArray from 'stream-json/streamers/StreamArray.js';
+import pool from './db';
+import { ContentType, SkipReason, SpotifyStreamingRecord, validateRecord } from './records';
+
+export interface ImportResult {
+  inserted: number;
+  duplicates: number;
+  skipped: Record<SkipReason, number>;
+  malformed: number;
+  uploadId: number | null;
+  alreadyUploaded?: boolean;
+}
+
+export interface ImportSource {
+  filename: string;
+  hash: string;
+}
+
+const BATCH_SIZE = 2000;
+
+const COLUMNS = [
+  'user_id',
+  'ts',
+  'content_type',
+  'track_name',
+  'artist_name',
+  'album_name',
+  'ms_played',
+  'spotify_track_uri',
+  'episode_name',
+  'show_name',
+  'spotify_episode_uri',
+  'audiobook_title',
+  'audiobook_chapter_title',
+  'audiobook_uri',
+  'audiobook_chapter_uri',
+  'platform',
+];
+
+export function countRejected(result: ImportResult) {
+  return result.malformed + Object.values(result.skipped).reduce((sum, n) => sum + n, 0);
+}
+
+function toRow(userId: number, record: SpotifyStreamingRecord, contentType: ContentType) {
+  return [
+    userId,
+    record.ts,
+    contentType,
+    record.master_metadata_track_name,
+    record.master_metadata_album_artist_name,
+    record.master_metadata_album_album_name,
+    record.ms_played,
+    record.spotify_track_uri,
+    record.episode_name,
+    record.episode_show_name,
+    record.spotify_episode_uri,
+    record.audiobook_title,
+    record.audiobook_chapter_title,
+    record.audiobook_uri,
+    record.audiobook_chapter_uri,
+    record.platform,
+  ] as const;
+}
+
+type PlayRow = ReturnType<typeof toRow>;
+
+async function insertBatch(client: pg.PoolClient, rows: PlayRow[]): Promise<number> {
+  const values: unknown[] = [];
+  const placeholders: string[] = [];
+
+  rows.forEach((row, idx) => {
+    const offset = idx * COLUMNS.length;
+    placeholders.push(`(${row.map((_, col) => `$${offset + col + 1}`).join(', ')})`);
+    values.push(...row);
+  });
+
+  const result = await client.query(
+    `INSERT INTO streaming_history (${COLUMNS.join(', ')})
+     VALUES ${placeholders.join(', ')}
+     ON CONFLICT DO NOTHING`,
+    values
+  );
+  return result.rowCount || 0;
+}
+
+const ARTIST_NAME = COLUMNS.indexOf('artist_name');
+const TRACK_URI = COLUMNS.indexOf('spotify_track_uri');
+
+// Creates the artists for names in the batch that have no alias yet, one name
+// per autocommitted query, before the batch goes into the file's transaction.
+// Left to the insert trigger, each new alias would stay locked until the whole
+// file commits, stalling (or deadlocking) any other import that meets the same
+// names. Tracks already credited through track_artists don't need their name.
+async function resolveNewArtists(rows: PlayRow[]) {
+  const unseen = await pool.query(`
+    SELECT DISTINCT k.name
+    FROM unnest($1::text[], $2::text[]) AS k(name, uri)
+    WHERE k.name IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM track_artists t WHERE t.spotify_track_uri = k.uri)
+      AND NOT EXISTS (SELECT 1 FROM artist_aliases a WHERE a.normalized_name = normalize_artist_name(k.name))
+  `, [rows.map(row => row[ARTIST_NAME]), rows.map(row => row[TRACK_URI])]);
+  for (const { name } of unseen.rows) {
+    await pool.query('SELECT resolve_artist($1)', [name]);
+  }
+}
+
+const TS = COLUMNS.indexOf('ts');
+const MS_PLAYED = COLUMNS.indexOf('ms_played');
+const URIS = [TRACK_URI, COLUMNS.indexOf('spotify_episode_uri'), COLUMNS.indexOf('audiobook_chapter_uri')];
+
+// Links every play in the batch to the upload, whether this import inserted it
+// or it was already there, by looking the rows up on the play key.
+async function linkBatch(client: pg.PoolClient, uploadId: number, userId: number, rows: PlayRow[]) {
+  await client.query(`
+    INSERT INTO upload_plays (upload_id, play_id)
+    SELECT $1, sh.id
+    FROM unnest($3::timestamp[], $4::text[], $5::int[]) AS k(ts, uri, ms_played)
+    JOIN streaming_history sh ON sh.user_id = $2
+      AND sh.ts = k.ts
+      AND COALESCE(sh.spotify_track_uri, sh.spotify_episode_uri, sh.audiobook_chapter_uri, '') = k.uri
+      AND sh.ms_played = k.ms_played
+    ON CONFLICT DO NOTHING
+  `, [
+    uploadId,
+    userId,
+    rows.map(row => row[TS]),
+    rows.map(row => URIS.map(i => row[i]).find(uri => uri != null) ?? ''),
+    rows.map(row => row[MS_PLAYED])
+  ]);
+}
+
+// Plays are keyed on (user_id, ts, track/episode/chapter URI, ms_played), so
+// re-importing an overlapping export only adds the plays we haven't seen.
+// Records are consumed incrementally and written in batches inside a single
+// transaction, so a file either lands completely or not at all. When a source
+// file is given, an uploads row is created and every play in the file, new or
+// duplicate, is linked to it in upload_plays.
+export async function importRecords(
+  userId: number,
+  records: Iterable<unknown> | AsyncIterable<unknown>,
+  source?: ImportSource
+): Promise<ImportResult> {
+  const client = await pool.connect();
+  let inserted = 0;
+  let total = 0;
+  const skipped: Record<SkipReason, number> = { zero_playtime: 0, no_content: 0 };
+  let malformed = 0;
+  let uploadId: number | null = null;
+
+  try {
+    await client.query('BEGIN');
+
+    if (source) {
+      const uploadResult = await client.query(
+        'INSERT INTO uploads (user_id, original_filename, file_hash) VALUES ($1, $2, $3) RETURNING id',
+        [userId, source.filename, source.hash]
+      );
+      uploadId = uploadResult.rows[0].id;
+    }
+
+    let batch: PlayRow[] = [];
+    for await (const record of records) {
+      const validation = validateRecord(record);
+      if (validation.status === 'malformed') {
+        malformed++;
+        continue;
+      }
+      if (validation.status === 'skipped') {
+        skipped[validation.reason]++;
+        continue;
+      }
+
+      batch.push(toRow(userId, validation.record, validation.contentType));
+      if (batch.length >= BATCH_SIZE) {
+        await resolveNewArtists(batch);
+        await resolveNewArtists(batch);
+      inserted += await insertBatch(client, batch);
+        if (uploadId) {
+          await linkBatch(client, uploadId, userId, batch);
+        }
+        total += batch.length;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      inserted += await insertBatch(client, batch);
+      if (uploadId) {
+        await linkBatch(client, uploadId, userId, batch);
+      }
+      total += batch.length;
+    }
+
+    if (uploadId) {
+      await client.query(`
+        UPDATE uploads SET
+          record_count = stats.record_count,
+          first_played_at = stats.first_played_at,
+          last_played_at = stats.last_played_at
+        FROM (
+          SELECT COUNT(*) as record_count, MIN(sh.ts) as first_played_at, MAX(sh.ts) as last_played_at
+          FROM upload_plays up
+          JOIN streaming_history sh ON sh.id = up.play_id
+          WHERE up.upload_id = $1
+        ) stats
+        WHERE id = $1
+      `, [uploadId]);
+    }
+
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+
+  return { inserted, duplicates: total - inserted, skipped, malformed, uploadId };
+}
+
+// Deletes one of the user's uploads along with the plays that no other upload
+// also contains. Returns how many plays were removed, or null if the user has
+// no such upload.
+export async function deleteUpload(userId: number, uploadId: number): Promise<number | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const upload = await client.query(
+      'SELECT id FROM uploads WHERE id = $1 AND user_id = $2 FOR UPDATE',
+      [uploadId, userId]
+    );
+    if (upload.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const removed = await client.query(`
+      DELETE FROM streaming_history sh
+      USING upload_plays up
+      WHERE up.upload_id = $1
+        AND sh.id = up.play_id
+        AND NOT EXISTS (
+          SELECT 1 FROM upload_plays other
+          WHERE other.play_id = sh.id AND other.upload_id <> $1
+        )
+    `, [uploadId]);
+    await client.query('DELETE FROM uploads WHERE id = $1', [uploadId]);
+    await client.query('COMMIT');
+    return removed.rowCount || 0;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+export async function* readStreamingHistory(filePath: string): AsyncGenerator<unknown> {
+  const pipeline = fs.createReadStream(filePath).pipe(StreamArray.withParser());
+  for await (const { value } of pipeline) {
+    yield value;
+  }
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+export async function importStreamingHistoryFile(
+  userId: number,
+  filePath: string,
+  filename: string
+): Promise<ImportResult> {
+  const hash = await hashFile(filePath);
+  const existing = await pool.query(
+    'SELECT id FROM uploads WHERE user_id = $1 AND file_hash = $2',
+    [userId, hash]
+  );
+  if (existing.rows.length > 0) {
+    return {
+      inserted: 0,
+      duplicates: 0,
+      skipped: { zero_playtime: 0, no_content: 0 },
+      malformed: 0,
+      uploadId: existing.rows[0].id,
+      alreadyUploaded: true
+    };
+  }
+
+  return importRecords(userId, readStreamingHistory(filePath), { filename, hash });
+}
@@ -1,7 +1,6 @@
 import express from 'express';
 import cors from 'cors';
 import multer from 'multer';
-import { v4 as uuidv4 } from 'uuid';
 import pool, { initDb } from './db';
 import path from 'path';
 import fs from 'fs';
@@ -10,12 +9,33 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import cookieParser from 'cookie-parser';
 import { getSpotifyClient, isSpotifyConnected } from './spotify';
+import { deleteUpload, importStreamingHistoryFile } from './importer';
+import { createImportJob, getImportJob, startImportWorker } from './jobs';
+import { parseTimeRange } from './timeRange';
+import { findArtist, linkTrackArtist } from './artists';
+import { runMetadataWorker, startMetadataWorker } from './metadata';
+import { getListeningActivity } from './activity';
+import { getListeningYears, getWrapped } from './wrapped';
+import { evaluateAchievements, getBadges, getUserAchievements } from './achievements';
+import { compareUsers } from './compare';
+import { recordEvent } from './events';
+import { getFeed, parseFeedCursor } from './feed';
+import { COMMENT_PAGE_SIZE, CommentTarget, addComment, checkCommentAccess, deleteComment, findThread, getComment, getComments, parseCommentCursor, parseCommentSort, toggleCommentLike } from './comments';
+import { MAX_COMMENT_LENGTH, checkComment, getModerationQueue, parseReportReason, reportComment, resolveReports } from './moderation';
+import { rateLimit } from './rateLimit';
+import { NOTIFICATION_PAGE_SIZE, getNotifications, getUnreadCount, markNotificationsRead, notifyCommentLike, notifyNewComment, notifyOvertakes, parseNotificationCursor, snapshotArtistTotals } from './notifications';
+import { DEFAULT_PAGE_SIZE, getArtistLeaderboardPage, getViewerStanding, parseCursor, parsePageSize } from './leaderboard';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
-const upload = multer({ dest: 'uploads/' });
+const MAX_UPLOAD_FILE_MB = 500;
+const MAX_UPLOAD_FILES = 50;
+const upload = multer({
+  dest: 'uploads/',
+  limits: { fileSize: MAX_UPLOAD_FILE_MB * 1024 * 1024, files: MAX_UPLOAD_FILES }
+});
 
 const JWT_SECRET = process.env.JWT_SECRET || 'herd-secret-key-change-in-production';
 
@@ -49,6 +69,42 @@ function authMiddleware(req: AuthRequest, res: express.Response, next: express.N
 
 app.use(authMiddleware);
 
+function requireAuth(req: AuthRequest, res: express.Response, next: express.NextFunction) {
+  if (!req.userId) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  next();
+}
+
+async function requireModerator(req: AuthRequest, res: express.Response, next: express.NextFunction) {
+  if (!req.userId) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  try {
+    const result = await pool.query('SELECT is_moderator FROM users WHERE id = $1', [req.userId]);
+    if (!result.rows[0]?.is_moderator) {
+      return res.status(403).json({ error: 'Moderators only' });
+    }
+    next();
+  } catch (err) {
+    console.error('Error checking moderator:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+}
+
+// Ids from the URL or a JSON body. Anything but a positive integer that fits
+// an INTEGER column is turned away before it reaches SQL.
+function parseId(value: unknown): number | null {
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string' || !/^\d{1,10}$/.test(text)) return null;
+  const id = parseInt(text);
+  return id > 0 && id <= 2147483647 ? id : null;
+}
+
+const commentRateLimit = rateLimit({ max: 5, windowMs: 60 * 1000 });
+const likeRateLimit = rateLimit({ max: 30, windowMs: 60 * 1000 });
+const reportRateLimit = rateLimit({ max: 10, windowMs: 60 * 60 * 1000 });
+
 const DEMO_USER_ID = 1;
 const DEMO_USERNAME = 'David Stouck';
 
@@ -70,43 +126,14 @@ async function loadDemoData() {
   }
 
   console.log('Loading demo data from JSON files...');
-  const files = fs.readdirSync('.').filter(f => f.includes('Streaming_History_Audio') && f.endsWith('.json'));
+  const files = fs.readdirSync('.').filter(f => /Streaming_History_(Audio|Video)/.test(f) && f.endsWith('.json'));
   
   let totalRecords = 0;
   for (const file of files) {
     try {
-      const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
-      const validRecords = data.filter((r: any) => r.master_metadata_track_name && r.ms_played > 0);
-      
-      const BATCH_SIZE = 500;
-      for (let i = 0; i < validRecords.length; i += BATCH_SIZE) {
-        const batch = validRecords.slice(i, i + BATCH_SIZE);
-        const values: any[] = [];
-        const placeholders: string[] = [];
-        
-        batch.forEach((record: any, idx: number) => {
-          const offset = idx * 8;
-          placeholders.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`);
-          values.push(
-            DEMO_USER_ID,
-            record.ts,
-            record.master_metadata_track_name,
-            record.master_metadata_album_artist_name,
-            record.master_metadata_album_album_name,
-            record.ms_played,
-            record.spotify_track_uri,
-            record.platform
-          );
-        });
-        
-        await pool.query(
-          `INSERT INTO streaming_history (user_id, ts, track_name, artist_name, album_name, ms_played, spotify_track_uri, platform)
-           VALUES ${placeholders.join(', ')}`,
-          values
-        );
-        totalRecords += batch.length;
-      }
-      console.log(`Loaded ${file} (${validRecords.length} records)`);
+      const { inserted, duplicates } = await importStreamingHistoryFile(DEMO_USER_ID, file, file);
+      totalRecords += inserted;
+      console.log(`Loaded ${file} (${inserted} records, ${duplicates} duplicates)`);
     } catch (e) {
       console.error(`Error loading ${file}:`, e);
     }
@@ -118,13 +145,13 @@ async function syncAllUsersFromFiles() {
   console.log('Syncing all users from JSON files...');
   
   const files = fs.readdirSync('.').filter(f => 
-    f.startsWith('User_') && f.includes('Streaming_History_Audio') && f.endsWith('.json')
+    f.startsWith('User_') && /Streaming_History_(Audio|Video)/.test(f) && f.endsWith('.json')
   );
   
   const userFilesMap: Record<string, string[]> = {};
   
   for (const file of files) {
-    const match = file.match(/^User_(.+?)_Streaming_History_Audio/);
+    const match = file.match(/^User_(.+?)_Streaming_History_(Audio|Video)/);
     if (match) {
       const rawName = match[1].replace(/_/g, ' ').trim();
       if (!userFilesMap[rawName]) {
@@ -150,51 +177,19 @@ async function syncAllUsersFromFiles() {
         userId = userResult.rows[0].id;
       }
       
-      const countResult = await pool.query('SELECT COUNT(*) FROM streaming_history WHERE user_id = $1', [userId]);
-      if (parseInt(countResult.rows[0].count) > 0) {
-        console.log(`User ${username} already has data, skipping...`);
-        continue;
-      }
-      
       let totalRecords = 0;
+      let totalDuplicates = 0;
       for (const file of userFiles) {
         try {
-          const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
-          const validRecords = data.filter((r: any) => r.master_metadata_track_name && r.ms_played > 0);
-          
-          const BATCH_SIZE = 500;
-          for (let i = 0; i < validRecords.length; i += BATCH_SIZE) {
-            const batch = validRecords.slice(i, i + BATCH_SIZE);
-            const values: any[] = [];
-            const placeholders: string[] = [];
-            
-            batch.forEach((record: any, idx: number) => {
-              const offset = idx * 8;
-              placeholders.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`);
-              values.push(
-                userId,
-                record.ts,
-                record.master_metadata_track_name,
-                record.master_metadata_album_artist_name,
-                record.master_metadata_album_album_name,
-                record.ms_played,
-                record.spotify_track_uri,
-                record.platform
-              );
-            });
-            
-            await pool.query(
-              `INSERT INTO streaming_history (user_id, ts, track_name, artist_name, album_name, ms_played, spotify_track_uri, platform)
-               VALUES ${placeholders.join(', ')}`,
-              values
-            );
-            totalRecords += batch.length;
-          }
+          const { inserted, duplicates } = await importStreamingHistoryFile(userId, file, file);
+          totalRecords += inserted;
+          totalDuplicates += duplicates;
         } catch (e) {
           console.error(`Error processing ${file}:`, e);
         }
       }
-      console.log(`Imported ${totalRecords} records for ${username}`);
+      console.log(`Imported ${totalRecords} new records for ${username} (${totalDuplicates} already present)`);
+      await evaluateAchievements(userId);
     } catch (e) {
       console.error(`Error syncing user ${username}:`, e);
     }
@@ -367,13 +362,18 @@ app.post('/api/spotify/sync', async (req: AuthRequest, res) => {
     
     const spotify = await getSpotifyClient();
     const recentTracks = await spotify.player.getRecentlyPlayedTracks(50);
+    const totalsBefore = await snapshotArtistTotals(req.userId);
     
     let imported = 0;
+    let duplicates = 0;
     for (const item of recentTracks.items) {
       const track = item.track;
       const playedAt = new Date(item.played_at);
+      if (track.artists[0]?.id) {
+        await linkTrackArtist(track.uri, track.artists[0].id, track.artists[0].name);
+      }
       
-      await pool.query(
+      const result = await pool.query(
         `INSERT INTO streaming_history (user_id, ts, track_name, artist_name, album_name, ms_played, spotify_track_uri, platform)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          ON CONFLICT DO NOTHING`,
@@ -388,60 +388,117 @@ app.post('/api/spotify/sync', async (req: AuthRequest, res) => {
           'spotify_api'
         ]
       );
-      imported++;
+      if (result.rowCount) {
+        imported++;
+      } else {
+        duplicates++;
+      }
     }
     
     await pool.query('UPDATE users SET spotify_connected = TRUE WHERE id = $1', [req.userId]);
+    runMetadataWorker();
+    await evaluateAchievements(req.userId);
+    if (imported > 0) {
+      await notifyOvertakes(req.userId, totalsBefore);
+    }
     
-    res.json({ success: true, imported });
+    res.json({ success: true, imported, duplicates });
   } catch (err) {
     console.error('Error syncing Spotify:', err);
     res.status(500).json({ error: 'Failed to sync Spotify data' });
   }
 });
 
+async function findUser(idOrUsername: string | number) {
+  const userQuery = typeof idOrUsername === 'string' && isNaN(parseInt(idOrUsername))
+    ? await pool.query('SELECT * FROM users WHERE username ILIKE $1', [idOrUsername])
+    : await pool.query('SELECT * FROM users WHERE id = $1', [idOrUsername]);
+  return userQuery.rows[0] || null;
+}
+
 app.get('/api/user/:userId?', async (req: AuthRequest, res) => {
   try {
-    const userId = req.params.userId || DEMO_USER_ID;
-    
-    let userQuery;
-    if (typeof userId === 'string' && isNaN(parseInt(userId))) {
-      userQuery = await pool.query('SELECT * FROM users WHERE username ILIKE $1', [userId]);
-    } else {
-      userQuery = await pool.query('SELECT * FROM users WHERE id = $1', [userId]);
-    }
-    
-    if (userQuery.rows.length === 0) {
+    const user = await findUser(req.params.userId || DEMO_USER_ID);
+    if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    const user = userQuery.rows[0];
-    
     const statsQuery = await pool.query(`
       SELECT 
-        COALESCE(SUM(ms_played), 0) as total_ms,
-        COUNT(DISTINCT track_name) as total_songs
-      FROM streaming_history WHERE user_id = $1
+        (SELECT COALESCE(SUM(total_ms), 0) FROM user_daily_rollups WHERE user_id = $1) as total_ms,
+        (SELECT COUNT(DISTINCT track_name) FROM user_track_rollups WHERE user_id = $1) as total_songs
     `, [user.id]);
     
     const topArtistsQuery = await pool.query(`
-      SELECT artist_name, SUM(ms_played) as total_ms, COUNT(*) as plays
-      FROM streaming_history 
-      WHERE user_id = $1 AND artist_name IS NOT NULL
-      GROUP BY artist_name
-      ORDER BY total_ms DESC
+      SELECT a.id as artist_id, a.name as artist_name, a.image_url, r.total_ms, r.plays
+      FROM user_artist_rollups r
+      JOIN artists a ON r.artist_id = a.id
+      WHERE r.user_id = $1
+      ORDER BY r.total_ms DESC
       LIMIT 10
     `, [user.id]);
     
     const topSongsQuery = await pool.query(`
-      SELECT track_name, artist_name, SUM(ms_played) as total_ms, COUNT(*) as plays
-      FROM streaming_history 
-      WHERE user_id = $1 AND track_name IS NOT NULL
-      GROUP BY track_name, artist_name
+      SELECT r.track_name, NULLIF(r.artist_name, '') as artist_name, r.artist_id, tm.album_image_url, r.total_ms, r.plays
+      FROM user_track_rollups r
+      LEFT JOIN track_metadata tm ON tm.spotify_track_uri = r.spotify_track_uri
+      WHERE r.user_id = $1
+      ORDER BY r.total_ms DESC
+      LIMIT 10
+    `, [user.id]);
+    
+    // An artist's minutes count toward each of its genres.
+    const topGenresQuery = await pool.query(`
+      WITH artist_genres AS (
+        SELECT unnest(a.genres) as genre, a.id, a.name, r.total_ms
+        FROM user_artist_rollups r
+        JOIN artists a ON r.artist_id = a.id
+        WHERE r.user_id = $1
+      ), top_genres AS (
+        SELECT genre, SUM(total_ms) as total_ms
+        FROM artist_genres
+        GROUP BY genre
+        ORDER BY total_ms DESC
+        LIMIT 10
+      )
+      SELECT 
+        t.genre,
+        t.total_ms,
+        json_agg(json_build_object('id', g.id, 'name', g.name, 'totalMs', g.total_ms) ORDER BY g.total_ms DESC) as artists
+      FROM top_genres t
+      JOIN artist_genres g ON g.genre = t.genre
+      GROUP BY t.genre, t.total_ms
+      ORDER BY t.total_ms DESC
+    `, [user.id]);
+    
+    const topShowsQuery = await pool.query(`
+      SELECT show_name, total_ms, plays
+      FROM user_show_rollups
+      WHERE user_id = $1
+      ORDER BY total_ms DESC
+      LIMIT 10
+    `, [user.id]);
+    
+    const topAudiobooksQuery = await pool.query(`
+      SELECT audiobook_title, total_ms, plays
+      FROM user_audiobook_rollups
+      WHERE user_id = $1
       ORDER BY total_ms DESC
       LIMIT 10
     `, [user.id]);
     
+    const years = await getListeningYears(user.id);
+    const achievements = await getUserAchievements(user.id);
+    const followsQuery = await pool.query(`
+      SELECT
+        (SELECT COUNT(*) FROM follows WHERE followee_id = $1) as followers,
+        (SELECT COUNT(*) FROM follows WHERE follower_id = $1) as following,
+        EXISTS (SELECT 1 FROM follows WHERE follower_id = $2 AND followee_id = $1) as is_following
+    `, [user.id, req.userId ?? null]);
+    const wall = user.comment_wall_enabled
+      ? await getComments({ profileUserId: user.id }, req.userId ?? null, 'new', null, COMMENT_PAGE_SIZE)
+      : null;
+    
     res.json({
       user: {
         id: user.id,
@@ -449,18 +506,49 @@ app.get('/api/user/:userId?', async (req: AuthRequest, res) => {
         avatar: user.avatar,
         createdAt: user.created_at
       },
+      followerCount: parseInt(followsQuery.rows[0].followers),
+      followingCount: parseInt(followsQuery.rows[0].following),
+      isFollowing: followsQuery.rows[0].is_following,
+      commentWallEnabled: user.comment_wall_enabled,
+      comments: wall ? wall.comments : [],
+      commentsNextCursor: wall ? wall.nextCursor : null,
       stats: {
         totalMinutes: Math.round(parseInt(statsQuery.rows[0].total_ms) / 60000),
         totalSongs: parseInt(statsQuery.rows[0].total_songs)
       },
+      years,
+      achievements,
       topArtists: topArtistsQuery.rows.map(r => ({
+        id: r.artist_id,
         name: r.artist_name,
+        imageUrl: r.image_url,
         minutes: Math.round(parseInt(r.total_ms) / 60000),
         plays: parseInt(r.plays)
       })),
       topSongs: topSongsQuery.rows.map(r => ({
         name: r.track_name,
         artist: r.artist_name,
+        artistId: r.artist_id,
+        albumImageUrl: r.album_image_url,
+        minutes: Math.round(parseInt(r.total_ms) / 60000),
+        plays: parseInt(r.plays)
+      })),
+      topGenres: topGenresQuery.rows.map(r => ({
+        name: r.genre,
+        minutes: Math.round(parseInt(r.total_ms) / 60000),
+        artists: r.artists.map((a: { id: number; name: string; totalMs: number }) => ({
+          id: a.id,
+          name: a.name,
+          minutes: Math.round(a.totalMs / 60000)
+        }))
+      })),
+      topShows: topShowsQuery.rows.map(r => ({
+        name: r.show_name,
+        minutes: Math.round(parseInt(r.total_ms) / 60000),
+        plays: parseInt(r.plays)
+      })),
+      topAudiobooks: topAudiobooksQuery.rows.map(r => ({
+        name: r.audiobook_title,
         minutes: Math.round(parseInt(r.total_ms) / 60000),
         plays: parseInt(r.plays)
       }))
@@ -471,192 +559,795 @@ app.get('/api/user/:userId?', async (req: AuthRequest, res) => {
   }
 });
 
-app.get('/api/artist/:artistName', async (req: AuthRequest, res) => {
+async function followerCount(userId: number) {
+  const result = await pool.query('SELECT COUNT(*) FROM follows WHERE followee_id = $1', [userId]);
+  return parseInt(result.rows[0].count);
+}
+
+app.post('/api/user/:userId/follow', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const currentUserId = req.userId || DEMO_USER_ID;
-    const artistName = decodeURIComponent(req.params.artistName);
+    const user = await findUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (user.id === req.userId) {
+      return res.status(400).json({ error: "You can't follow yourself" });
+    }
     
-    const leaderboardQuery = await pool.query(`
-      SELECT 
-        u.id as user_id,
-        u.username,
-        u.avatar,
-        SUM(sh.ms_played) as total_ms,
-        COUNT(DISTINCT sh.track_name) as song_count
-      FROM streaming_history sh
-      JOIN users u ON sh.user_id = u.id
-      WHERE sh.artist_name ILIKE $1
-      GROUP BY u.id, u.username, u.avatar
-      ORDER BY total_ms DESC
-      LIMIT 10
-    `, [artistName]);
+    await pool.query(
+      'INSERT INTO follows (follower_id, followee_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [req.userId, user.id]
+    );
+    res.json({ following: true, followerCount: await followerCount(user.id) });
+  } catch (err) {
+    console.error('Error following user:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/user/:userId/follow', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const user = await findUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
     
-    const commentsQuery = await pool.query(`
-      SELECT 
-        c.id,
-        c.content,
-        c.likes,
-        c.created_at,
-        u.username,
-        u.avatar
-      FROM comments c
-      JOIN users u ON c.user_id = u.id
-      WHERE c.artist_name ILIKE $1
-      ORDER BY c.created_at DESC
-      LIMIT 20
-    `, [artistName]);
+    await pool.query('DELETE FROM follows WHERE follower_id = $1 AND followee_id = $2', [req.userId, user.id]);
+    res.json({ following: false, followerCount: await followerCount(user.id) });
+  } catch (err) {
+    console.error('Error unfollowing user:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/feed', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const cursor = req.query.cursor === undefined ? null : parseFeedCursor(req.query.cursor);
+    if (req.query.cursor !== undefined && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const limit = parsePageSize(req.query.limit, 20);
+    if (!limit) {
+      return res.status(400).json({ error: 'Invalid limit' });
+    }
+    
+    res.json(await getFeed(req.userId!, cursor, limit));
+  } catch (err) {
+    console.error('Error fetching feed:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/notifications', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const cursor = req.query.cursor === undefined ? null : parseNotificationCursor(req.query.cursor);
+    if (req.query.cursor !== undefined && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const limit = parsePageSize(req.query.limit, NOTIFICATION_PAGE_SIZE);
+    if (!limit) {
+      return res.status(400).json({ error: 'Invalid limit' });
+    }
+    res.json(await getNotifications(req.userId!, cursor, limit));
+  } catch (err) {
+    console.error('Error fetching notifications:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/notifications/unread-count', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    res.json({ unreadCount: await getUnreadCount(req.userId!) });
+  } catch (err) {
+    console.error('Error counting notifications:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/notifications/read-all', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    await markNotificationsRead(req.userId!, null);
+    res.json({ unreadCount: 0 });
+  } catch (err) {
+    console.error('Error marking notifications read:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/notifications/:id/read', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const notificationId = parseId(req.params.id);
+    if (notificationId === null) {
+      return res.status(400).json({ error: 'Invalid notification id' });
+    }
+    if (await markNotificationsRead(req.userId!, notificationId) === 0) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+    res.json({ unreadCount: await getUnreadCount(req.userId!) });
+  } catch (err) {
+    console.error('Error marking notification read:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/user/:userId/activity', async (req, res) => {
+  try {
+    const user = await findUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    let artist = null;
+    if (req.query.artistId !== undefined) {
+      artist = typeof req.query.artistId === 'string' && /^\d+$/.test(req.query.artistId)
+        ? await findArtist(req.query.artistId)
+        : null;
+      if (!artist) {
+        return res.status(404).json({ error: 'Artist not found' });
+      }
+    }
+    
+    const activity = await getListeningActivity(user.id, artist?.id ?? null);
     
     res.json({
-      artist: {
-        name: artistName
+      user: {
+        id: user.id,
+        username: user.username
       },
-      leaderboard: leaderboardQuery.rows.map((r, i) => ({
-        rank: i + 1,
-        userId: r.user_id,
-        username: r.username,
-        avatar: r.avatar,
-        minutes: Math.round(parseInt(r.total_ms) / 60000),
-        songCount: parseInt(r.song_count),
-        isCurrentUser: r.user_id === currentUserId
-      })),
-      comments: commentsQuery.rows.map(c => ({
-        id: c.id,
-        content: c.content,
-        likes: c.likes,
-        createdAt: c.created_at,
-        username: c.username,
-        avatar: c.avatar
-      }))
+      artist: artist && {
+        id: artist.id,
+        name: artist.name
+      },
+      ...activity
     });
   } catch (err) {
-    console.error('Error fetching artist:', err);
+    console.error('Error fetching activity:', err);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/artist/:artistName/comment', async (req: AuthRequest, res) => {
+app.get('/api/user/:userId/wrapped/:year', async (req, res) => {
   try {
-    const userId = req.userId || DEMO_USER_ID;
-    const artistName = decodeURIComponent(req.params.artistName);
-    const { content } = req.body;
+    const year = /^\d{4}$/.test(req.params.year) ? parseTimeRange({ range: req.params.year }) : null;
+    if (!year) {
+      return res.status(400).json({ error: 'Invalid year' });
+    }
     
-    const result = await pool.query(
-      'INSERT INTO comments (user_id, artist_name, content) VALUES ($1, $2, $3) RETURNING *',
-      [userId, artistName, content]
-    );
+    const user = await findUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
     
-    const user = await pool.query('SELECT username, avatar FROM users WHERE id = $1', [userId]);
+    const wrapped = await getWrapped(user.id, year);
+    if (!wrapped) {
+      return res.status(404).json({ error: `No listening in ${req.params.year}` });
+    }
     
     res.json({
-      id: result.rows[0].id,
-      content: result.rows[0].content,
-      likes: 0,
-      createdAt: result.rows[0].created_at,
-      username: user.rows[0].username,
-      avatar: user.rows[0].avatar
+      user: {
+        id: user.id,
+        username: user.username,
+        avatar: user.avatar
+      },
+      years: await getListeningYears(user.id),
+      ...wrapped
     });
   } catch (err) {
-    console.error('Error adding comment:', err);
+    console.error('Error fetching wrapped:', err);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/comment/:commentId/like', async (req: AuthRequest, res) => {
+app.get('/api/compare/:userA/:userB', async (req, res) => {
   try {
-    const userId = req.userId || DEMO_USER_ID;
-    const commentId = parseInt(req.params.commentId);
+    const userA = await findUser(req.params.userA);
+    const userB = await findUser(req.params.userB);
+    if (!userA || !userB) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (userA.id === userB.id) {
+      return res.status(400).json({ error: 'Choose two different users' });
+    }
     
-    await pool.query(
-      'INSERT INTO comment_likes (comment_id, user_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
-      [commentId, userId]
-    );
+    const comparison = await compareUsers(userA.id, userB.id);
     
-    await pool.query(
-      'UPDATE comments SET likes = (SELECT COUNT(*) FROM comment_likes WHERE comment_id = $1) WHERE id = $1',
-      [commentId]
-    );
+    res.json({
+      userA: {
+        id: userA.id,
+        username: userA.username,
+        avatar: userA.avatar
+      },
+      userB: {
+        id: userB.id,
+        username: userB.username,
+        avatar: userB.avatar
+      },
+      ...comparison
+    });
+  } catch (err) {
+    console.error('Error comparing users:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/artist/:artistId', async (req: AuthRequest, res) => {
+  try {
+    const viewerId = req.userId ?? null;
+    const artist = await findArtist(decodeURIComponent(req.params.artistId));
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
+    }
+    const range = parseTimeRange(req.query);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid range' });
+    }
     
-    const result = await pool.query('SELECT likes FROM comments WHERE id = $1', [commentId]);
-    res.json({ likes: result.rows[0].likes });
+    const page = await getArtistLeaderboardPage(artist.id, range, viewerId, null, DEFAULT_PAGE_SIZE);
+    const standing = await getViewerStanding(artist.id, range, viewerId);
+    
+    const comments = await getComments({ artistId: artist.id }, req.userId ?? null, 'new', null, COMMENT_PAGE_SIZE);
+    
+    res.json({
+      artist,
+      range: {
+        key: range.key,
+        from: range.from,
+        to: range.to
+      },
+      leaderboard: page.leaderboard,
+      nextCursor: page.nextCursor,
+      totalListeners: standing.totalListeners,
+      viewer: standing.viewer,
+      comments: comments.comments,
+      commentsNextCursor: comments.nextCursor
+    });
   } catch (err) {
-    console.error('Error liking comment:', err);
+    console.error('Error fetching artist:', err);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.post('/api/upload', upload.array('files'), async (req, res) => {
+app.get('/api/artist/:artistId/leaderboard', async (req: AuthRequest, res) => {
   try {
-    const files = req.files as Express.Multer.File[];
-    const username = req.body.username || `User_${uuidv4().slice(0, 8)}`;
+    const viewerId = req.userId ?? null;
+    const artist = await findArtist(decodeURIComponent(req.params.artistId));
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
+    }
+    const range = parseTimeRange(req.query);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid range' });
+    }
+    const cursor = req.query.cursor === undefined ? null : parseCursor(req.query.cursor);
+    if (req.query.cursor !== undefined && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const limit = parsePageSize(req.query.limit, 50);
+    if (!limit) {
+      return res.status(400).json({ error: 'Invalid limit' });
+    }
     
-    let userResult = await pool.query('SELECT id FROM users WHERE username = $1', [username]);
-    let userId: number;
+    const page = await getArtistLeaderboardPage(artist.id, range, viewerId, cursor, limit);
+    const standing = await getViewerStanding(artist.id, range, viewerId);
     
-    if (userResult.rows.length === 0) {
-      const newUser = await pool.query(
-        'INSERT INTO users (username, avatar) VALUES ($1, $2) RETURNING id',
-        [username, 'goat']
-      );
-      userId = newUser.rows[0].id;
-    } else {
-      userId = userResult.rows[0].id;
-    }
-    
-    let totalRecords = 0;
-    const BATCH_SIZE = 500;
-    
-    for (const file of files) {
-      try {
-        const data = JSON.parse(fs.readFileSync(file.path, 'utf-8'));
-        const validRecords = data.filter((r: any) => r.master_metadata_track_name && r.ms_played > 0);
-        
-        for (let i = 0; i < validRecords.length; i += BATCH_SIZE) {
-          const batch = validRecords.slice(i, i + BATCH_SIZE);
-          const values: any[] = [];
-          const placeholders: string[] = [];
-          
-          batch.forEach((record: any, idx: number) => {
-            const offset = idx * 8;
-            placeholders.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7}, $${offset + 8})`);
-            values.push(
-              userId,
-              record.ts,
-              record.master_metadata_track_name,
-              record.master_metadata_album_artist_name,
-              record.master_metadata_album_album_name,
-              record.ms_played,
-              record.spotify_track_uri,
-              record.platform
-            );
-          });
-          
-          await pool.query(
-            `INSERT INTO streaming_history (user_id, ts, track_name, artist_name, album_name, ms_played, spotify_track_uri, platform)
-             VALUES ${placeholders.join(', ')}`,
-            values
-          );
-          totalRecords += batch.length;
-        }
-        fs.unlinkSync(file.path);
-      } catch (e) {
-        console.error(`Error processing file ${file.originalname}:`, e);
+    res.json({
+      artist,
+      range: {
+        key: range.key,
+        from: range.from,
+        to: range.to
+      },
+      leaderboard: page.leaderboard,
+      nextCursor: page.nextCursor,
+      totalListeners: standing.totalListeners,
+      viewer: standing.viewer
+    });
+  } catch (err) {
+    console.error('Error fetching artist leaderboard:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/artist/:artistId/comments', async (req: AuthRequest, res) => {
+  try {
+    const artist = await findArtist(decodeURIComponent(req.params.artistId));
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
+    }
+    const sort = parseCommentSort(req.query.sort);
+    if (!sort) {
+      return res.status(400).json({ error: 'Invalid sort' });
+    }
+    const cursor = req.query.cursor === undefined ? null : parseCommentCursor(req.query.cursor);
+    if (req.query.cursor !== undefined && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const limit = parsePageSize(req.query.limit, COMMENT_PAGE_SIZE);
+    if (!limit) {
+      return res.status(400).json({ error: 'Invalid limit' });
+    }
+
+    res.json(await getComments({ artistId: artist.id }, req.userId ?? null, sort, cursor, limit));
+  } catch (err) {
+    console.error('Error fetching comments:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/user/:userId/comments', async (req: AuthRequest, res) => {
+  try {
+    const user = await findUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.comment_wall_enabled) {
+      return res.status(403).json({ error: 'This wall is turned off' });
+    }
+    const sort = parseCommentSort(req.query.sort);
+    if (!sort) {
+      return res.status(400).json({ error: 'Invalid sort' });
+    }
+    const cursor = req.query.cursor === undefined ? null : parseCommentCursor(req.query.cursor);
+    if (req.query.cursor !== undefined && !cursor) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const limit = parsePageSize(req.query.limit, COMMENT_PAGE_SIZE);
+    if (!limit) {
+      return res.status(400).json({ error: 'Invalid limit' });
+    }
+
+    res.json(await getComments({ profileUserId: user.id }, req.userId ?? null, sort, cursor, limit));
+  } catch (err) {
+    console.error('Error fetching wall comments:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+async function getContentLeaderboard(
+  nameColumn: 'show_name' | 'audiobook_title',
+  itemColumn: 'episode_name' | 'audiobook_chapter_title',
+  name: string,
+  currentUserId: number | null
+) {
+  const leaderboardQuery = await pool.query(`
+    SELECT 
+      u.id as user_id,
+      u.username,
+      u.avatar,
+      SUM(sh.ms_played) as total_ms,
+      COUNT(DISTINCT sh.${itemColumn}) as item_count
+    FROM streaming_history sh
+    JOIN users u ON sh.user_id = u.id
+    WHERE sh.${nameColumn} ILIKE $1
+    GROUP BY u.id, u.username, u.avatar
+    ORDER BY total_ms DESC
+    LIMIT 10
+  `, [escapeLike(name)]);
+  const badges = await getBadges(leaderboardQuery.rows.map(r => r.user_id), null);
+  
+  return leaderboardQuery.rows.map((r, i) => ({
+    rank: i + 1,
+    userId: r.user_id,
+    username: r.username,
+    avatar: r.avatar,
+    minutes: Math.round(parseInt(r.total_ms) / 60000),
+    itemCount: parseInt(r.item_count),
+    badges: badges.get(r.user_id) || [],
+    isCurrentUser: r.user_id === currentUserId
+  }));
+}
+
+app.get('/api/show/:showName', async (req: AuthRequest, res) => {
+  try {
+    const viewerId = req.userId ?? null;
+    const showName = decodeURIComponent(req.params.showName);
+    
+    res.json({
+      show: {
+        name: showName
+      },
+      leaderboard: await getContentLeaderboard('show_name', 'episode_name', showName, viewerId)
+    });
+  } catch (err) {
+    console.error('Error fetching show:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/audiobook/:audiobookTitle', async (req: AuthRequest, res) => {
+  try {
+    const viewerId = req.userId ?? null;
+    const audiobookTitle = decodeURIComponent(req.params.audiobookTitle);
+    
+    res.json({
+      audiobook: {
+        name: audiobookTitle
+      },
+      leaderboard: await getContentLeaderboard('audiobook_title', 'audiobook_chapter_title', audiobookTitle, viewerId)
+    });
+  } catch (err) {
+    console.error('Error fetching audiobook:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Validates and stores a new comment or reply once the route has found its
+// artist page or wall, and responds with it.
+async function postComment(req: AuthRequest, res: express.Response, target: CommentTarget) {
+  const userId = req.userId!;
+  const { parentId } = req.body;
+  const check = checkComment(req.body.content);
+  if (!check.ok) {
+    return res.status(400).json({ error: check.error });
+  }
+
+  const repliedToId = parentId === undefined || parentId === null ? null : parseId(parentId);
+  if (repliedToId === null && parentId !== undefined && parentId !== null) {
+    return res.status(400).json({ error: 'Invalid parent comment id' });
+  }
+  let threadId: number | null = null;
+  if (repliedToId !== null) {
+    threadId = await findThread(repliedToId, target);
+    if (!threadId) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+  }
+
+  const commentId = await addComment(target, userId, check.content, threadId);
+  await recordEvent({ userId, type: 'comment', artistId: 'artistId' in target ? target.artistId : null, commentId });
+  await notifyNewComment(commentId, userId, repliedToId);
+
+  res.json(await getComment(commentId, userId));
+}
+
+app.post('/api/artist/:artistId/comment', requireAuth, commentRateLimit, async (req: AuthRequest, res) => {
+  try {
+    const artist = await findArtist(decodeURIComponent(req.params.artistId));
+    if (!artist) {
+      return res.status(404).json({ error: 'Artist not found' });
+    }
+    await postComment(req, res, { artistId: artist.id });
+  } catch (err) {
+    console.error('Error adding comment:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/user/:userId/comment', requireAuth, commentRateLimit, async (req: AuthRequest, res) => {
+  try {
+    const user = await findUser(req.params.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (!user.comment_wall_enabled) {
+      return res.status(403).json({ error: 'This wall is turned off' });
+    }
+    await postComment(req, res, { profileUserId: user.id });
+  } catch (err) {
+    console.error('Error adding wall comment:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.patch('/api/comment/:commentId', requireAuth, commentRateLimit, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const commentId = parseId(req.params.commentId);
+    if (commentId === null) {
+      return res.status(400).json({ error: 'Invalid comment id' });
+    }
+    const check = checkComment(req.body.content);
+    if (!check.ok) {
+      return res.status(400).json({ error: check.error });
+    }
+
+    const access = await checkCommentAccess(commentId, userId, 'edit');
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    await pool.query(
+      'UPDATE comments SET content = $1, edited_at = CURRENT_TIMESTAMP WHERE id = $2',
+      [check.content, commentId]
+    );
+    res.json(await getComment(commentId, userId));
+  } catch (err) {
+    console.error('Error editing comment:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/comment/:commentId', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const commentId = parseId(req.params.commentId);
+    if (commentId === null) {
+      return res.status(400).json({ error: 'Invalid comment id' });
+    }
+
+    const access = await checkCommentAccess(commentId, userId, 'delete');
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    await deleteComment(commentId);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting comment:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/comment/:commentId/like', requireAuth, likeRateLimit, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const commentId = parseId(req.params.commentId);
+    if (commentId === null) {
+      return res.status(400).json({ error: 'Invalid comment id' });
+    }
+
+    const access = await checkCommentAccess(commentId, userId, 'like');
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    const result = await toggleCommentLike(commentId, userId);
+    await notifyCommentLike(commentId, userId, result.liked);
+    res.json(result);
+  } catch (err) {
+    console.error('Error liking comment:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/comment/:commentId/report', requireAuth, reportRateLimit, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.userId!;
+    const commentId = parseId(req.params.commentId);
+    if (commentId === null) {
+      return res.status(400).json({ error: 'Invalid comment id' });
+    }
+    const reason = parseReportReason(req.body.reason);
+    if (!reason) {
+      return res.status(400).json({ error: 'Invalid reason' });
+    }
+    const details = typeof req.body.details === 'string' ? req.body.details.trim().slice(0, MAX_COMMENT_LENGTH) || null : null;
+
+    const access = await checkCommentAccess(commentId, userId, 'report');
+    if (!access.ok) {
+      return res.status(access.status).json({ error: access.error });
+    }
+
+    await reportComment(commentId, userId, reason, details);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error reporting comment:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/moderation/reports', requireModerator, async (req: AuthRequest, res) => {
+  try {
+    const limit = parsePageSize(req.query.limit, 50);
+    if (!limit) {
+      return res.status(400).json({ error: 'Invalid limit' });
+    }
+    res.json({ reports: await getModerationQueue(limit) });
+  } catch (err) {
+    console.error('Error fetching moderation queue:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.post('/api/moderation/reports/:commentId', requireModerator, async (req: AuthRequest, res) => {
+  try {
+    const commentId = parseId(req.params.commentId);
+    if (commentId === null) {
+      return res.status(400).json({ error: 'Invalid comment id' });
+    }
+    const { action } = req.body;
+    if (action !== 'dismiss' && action !== 'remove') {
+      return res.status(400).json({ error: 'Invalid action' });
+    }
+    const resolved = await resolveReports(commentId, req.userId!, action);
+    if (resolved === 0) {
+      return res.status(404).json({ error: 'No open reports for this comment' });
+    }
+    res.json({ success: true, resolved });
+  } catch (err) {
+    console.error('Error resolving reports:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+// Runs the multer upload, answering its limit errors with a message the upload
+// page can show. Multer removes whatever it already wrote when it aborts.
+function receiveUploads(req: express.Request, res: express.Response, next: express.NextFunction) {
+  upload.array('files')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: `Files must be smaller than ${MAX_UPLOAD_FILE_MB} MB` });
       }
+      if (err.code === 'LIMIT_FILE_COUNT') {
+        return res.status(400).json({ error: `Upload at most ${MAX_UPLOAD_FILES} files at a time` });
+      }
+      return res.status(400).json({ error: 'Invalid upload' });
+    }
+    next(err);
+  });
+}
+
+app.post('/api/upload', requireAuth, receiveUploads, async (req: AuthRequest, res) => {
+  try {
+    const files = (req.files as Express.Multer.File[]) || [];
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded' });
     }
     
-    res.json({ success: true, userId, recordsImported: totalRecords });
+    const jobId = await createImportJob(
+      req.userId!,
+      files.map(file => ({ name: file.originalname, path: file.path }))
+    );
+    
+    res.status(202).json({ success: true, jobId });
   } catch (err) {
     console.error('Error uploading data:', err);
     res.status(500).json({ error: 'Server error' });
   }
 });
 
-app.get('/api/users/search', async (req, res) => {
+app.get('/api/import-jobs/:id', requireAuth, async (req: AuthRequest, res) => {
   try {
-    const query = req.query.q as string;
-    const results = await pool.query(
-      'SELECT id, username, avatar FROM users WHERE username ILIKE $1 LIMIT 10',
-      [`%${query}%`]
+    const jobId = parseId(req.params.id);
+    const job = jobId === null ? null : await getImportJob(jobId, req.userId!);
+    if (!job) {
+      return res.status(404).json({ error: 'Import job not found' });
+    }
+    res.json(job);
+  } catch (err) {
+    console.error('Error fetching import job:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.patch('/api/me/settings', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const { commentWallEnabled } = req.body;
+    if (typeof commentWallEnabled !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid settings' });
+    }
+    await pool.query('UPDATE users SET comment_wall_enabled = $1 WHERE id = $2', [commentWallEnabled, req.userId]);
+    res.json({ commentWallEnabled });
+  } catch (err) {
+    console.error('Error updating settings:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/me/uploads', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT id, original_filename, record_count, first_played_at, last_played_at, uploaded_at
+       FROM uploads
+       WHERE user_id = $1
+       ORDER BY uploaded_at DESC`,
+      [req.userId]
+    );
+    res.json(result.rows.map(u => ({
+      id: u.id,
+      filename: u.original_filename,
+      recordCount: u.record_count,
+      firstPlayedAt: u.first_played_at,
+      lastPlayedAt: u.last_played_at,
+      uploadedAt: u.uploaded_at
+    })));
+  } catch (err) {
+    console.error('Error fetching uploads:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.delete('/api/me/uploads/:id', requireAuth, async (req: AuthRequest, res) => {
+  try {
+    const uploadId = parseId(req.params.id);
+    if (uploadId === null) {
+      return res.status(400).json({ error: 'Invalid upload id' });
+    }
+    const removed = await deleteUpload(req.userId!, uploadId);
+    if (removed === null) {
+      return res.status(404).json({ error: 'Upload not found' });
+    }
+    await evaluateAchievements(req.userId!);
+    res.json({ success: true, recordsRemoved: removed });
+  } catch (err) {
+    console.error('Error deleting upload:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+const SEARCH_LIMIT = 8;
+const FUZZY_MATCH_THRESHOLD = 0.4;
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+// Runs a search query with the `<%` word-similarity operator cut off at
+// FUZZY_MATCH_THRESHOLD. Filtering with the operator rather than comparing
+// word_similarity() lets Postgres use the trigram indexes; the setting is
+// transaction-local so pooled connections don't keep it.
+async function fuzzySearch(sql: string, params: unknown[]) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      "SELECT set_config('pg_trgm.word_similarity_threshold', $1, true)",
+      [String(FUZZY_MATCH_THRESHOLD)]
     );
+    const result = await client.query(sql, params);
+    await client.query('COMMIT');
+    return result;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// Substring matches on any of an artist's aliases come first, then near misses
+// by trigram word similarity (so "taylr" still finds Taylor Swift). Only
+// artists somebody has listened to are offered.
+app.get('/api/artists/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      return res.json([]);
+    }
+    
+    const results = await fuzzySearch(`
+      WITH matches AS (
+        SELECT artist_id, bool_or(alias ILIKE $1) as substring_match
+        FROM artist_aliases
+        WHERE alias ILIKE $1 OR $2 <% alias
+        GROUP BY artist_id
+      )
+      SELECT a.id, a.name, a.image_url, SUM(r.total_ms) as total_ms, COUNT(r.user_id) as listeners
+      FROM matches m
+      JOIN artists a ON m.artist_id = a.id
+      JOIN user_artist_rollups r ON r.artist_id = a.id
+      GROUP BY a.id, a.name, a.image_url, m.substring_match
+      ORDER BY m.substring_match DESC, SUM(r.total_ms) DESC
+      LIMIT $3
+    `, [`%${escapeLike(query)}%`, query, SEARCH_LIMIT]);
+    
+    res.json(results.rows.map(r => ({
+      id: r.id,
+      name: r.name,
+      imageUrl: r.image_url,
+      minutes: Math.round(parseInt(r.total_ms) / 60000),
+      listeners: parseInt(r.listeners)
+    })));
+  } catch (err) {
+    console.error('Error searching artists:', err);
+    res.status(500).json({ error: 'Server error' });
+  }
+});
+
+app.get('/api/users/search', async (req, res) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      return res.json([]);
+    }
+    
+    const results = await fuzzySearch(`
+      SELECT id, username, avatar
+      FROM users
+      WHERE username ILIKE $1 OR $3 <% username
+      ORDER BY username ILIKE $2 DESC, username ILIKE $1 DESC, word_similarity($3, username) DESC, username
+      LIMIT $4
+    `, [`%${escapeLike(query)}%`, `${escapeLike(query)}%`, query, SEARCH_LIMIT]);
     res.json(results.rows);
   } catch (err) {
     console.error('Error searching users:', err);
@@ -679,6 +1370,9 @@ async function start() {
     console.log(`API server running on http://0.0.0.0:${PORT}`);
   });
   
+  await startImportWorker();
+  startMetadataWorker();
+  
   // Auto-sync all users from JSON files on startup
   syncAllUsersFromFiles().catch(console.error);
 }
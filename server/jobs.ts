@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+import pool from './db';
+import { countRejected, importStreamingHistoryFile } from './importer';
+import { SkipReason } from './records';
+import { ArchiveMember, extractStreamingHistory, isStreamingHistoryFile, isZipFile } from './archive';
+import { runMetadataWorker } from './metadata';
+import { evaluateAchievements } from './achievements';
+import { recordEvent } from './events';
+import { notifyOvertakes, snapshotArtistTotals } from './notifications';
+
+export interface UploadedFile {
+  name: string;
+  path: string;
+}
+
+export interface UploadFileResult {
+  name: string;
+  status: 'imported' | 'skipped' | 'error';
+  recordsImported?: number;
+  duplicatesSkipped?: number;
+  recordsSkipped?: Record<SkipReason, number>;
+  recordsMalformed?: number;
+  reason?: string;
+  error?: string;
+}
+
+// The columns of a claimed import_jobs row the worker reads.
+interface ImportJobRow {
+  id: number;
+  user_id: number;
+  files: UploadedFile[];
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+let draining = false;
+
+export async function createImportJob(userId: number, files: UploadedFile[]): Promise<number> {
+  const result = await pool.query(
+    `INSERT INTO import_jobs (user_id, files, files_total)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [userId, JSON.stringify(files), files.length]
+  );
+  runImportWorker();
+  return result.rows[0].id;
+}
+
+export async function getImportJob(jobId: number, userId: number) {
+  const result = await pool.query('SELECT * FROM import_jobs WHERE id = $1 AND user_id = $2', [jobId, userId]);
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const job = result.rows[0];
+  return {
+    id: job.id,
+    status: job.status,
+    filesTotal: job.files_total,
+    filesProcessed: job.files_processed,
+    recordsInserted: job.records_inserted,
+    recordsDuplicate: job.records_duplicate,
+    recordsRejected: job.records_rejected,
+    files: job.results,
+    errors: job.errors,
+    createdAt: job.created_at,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at
+  };
+}
+
+async function claimNextJob(): Promise<ImportJobRow | null> {
+  const result = await pool.query(`
+    UPDATE import_jobs SET status = 'running', started_at = CURRENT_TIMESTAMP
+    WHERE id = (
+      SELECT id FROM import_jobs
+      WHERE status = 'queued'
+      ORDER BY created_at
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, user_id, files
+  `);
+  return result.rows[0] || null;
+}
+
+async function processJob(job: ImportJobRow): Promise<UploadFileResult[]> {
+  const files = job.files;
+  const results: UploadFileResult[] = [];
+  const errors: string[] = [];
+  let filesTotal = files.length;
+  let filesProcessed = 0;
+  let recordsInserted = 0;
+  let recordsDuplicate = 0;
+  let recordsRejected = 0;
+
+  const saveProgress = () => pool.query(
+    `UPDATE import_jobs SET
+       files_total = $2, files_processed = $3, records_inserted = $4,
+       records_duplicate = $5, records_rejected = $6, results = $7, errors = $8
+     WHERE id = $1`,
+    [job.id, filesTotal, filesProcessed, recordsInserted, recordsDuplicate, recordsRejected,
+      JSON.stringify(results), JSON.stringify(errors)]
+  );
+
+  const importFile = async (name: string, filePath: string) => {
+    try {
+      const result = await importStreamingHistoryFile(job.user_id, filePath, name);
+      if (result.alreadyUploaded) {
+        results.push({ name, status: 'skipped', reason: 'Already uploaded' });
+      } else {
+        recordsInserted += result.inserted;
+        recordsDuplicate += result.duplicates;
+        recordsRejected += countRejected(result);
+        results.push({
+          name,
+          status: 'imported',
+          recordsImported: result.inserted,
+          duplicatesSkipped: result.duplicates,
+          recordsSkipped: result.skipped,
+          recordsMalformed: result.malformed
+        });
+      }
+    } catch (e) {
+      console.error(`Error processing file ${name}:`, e);
+      results.push({ name, status: 'error', error: 'Could not be parsed as streaming history' });
+      errors.push(`${name}: could not be parsed as streaming history`);
+    }
+    filesProcessed++;
+    await saveProgress();
+  };
+
+  for (const file of files) {
+    if (isZipFile(file.name)) {
+      let members: ArchiveMember[] = [];
+      try {
+        members = await extractStreamingHistory(file.path, path.dirname(file.path));
+        filesTotal += members.length - 1;
+        for (const member of members) {
+          if (member.path) {
+            await importFile(member.name, member.path);
+          } else {
+            results.push({ name: member.name, status: 'skipped', reason: member.skipReason });
+            filesProcessed++;
+          }
+        }
+      } catch (e) {
+        console.error(`Error extracting archive ${file.name}:`, e);
+        results.push({ name: file.name, status: 'error', error: 'Could not be opened as a ZIP archive' });
+        errors.push(`${file.name}: could not be opened as a ZIP archive`);
+        filesProcessed++;
+      } finally {
+        for (const member of members) {
+          if (member.path) fs.rmSync(member.path, { force: true });
+        }
+      }
+      await saveProgress();
+    } else if (isStreamingHistoryFile(file.name)) {
+      await importFile(file.name, file.path);
+    } else if (file.name.toLowerCase().endsWith('.json')) {
+      // Held to the same rule as ZIP members, but the user picked this file,
+      // so it is an error rather than a quiet skip.
+      results.push({ name: file.name, status: 'error', error: 'Not a Spotify streaming history file' });
+      errors.push(`${file.name}: not a Spotify streaming history file (expected Streaming_History_Audio_*.json or Streaming_History_Video_*.json)`);
+      filesProcessed++;
+      await saveProgress();
+    } else {
+      results.push({ name: file.name, status: 'skipped', reason: 'Unsupported file type' });
+      filesProcessed++;
+      await saveProgress();
+    }
+  }
+
+  return results;
+}
+
+async function drainQueue() {
+  let job: ImportJobRow | null;
+  while ((job = await claimNextJob())) {
+    try {
+      const totalsBefore = await snapshotArtistTotals(job.user_id);
+      const results = await processJob(job);
+      const failed = results.some(r => r.status === 'error') && !results.some(r => r.status === 'imported');
+      await pool.query(
+        `UPDATE import_jobs SET status = $2, finished_at = CURRENT_TIMESTAMP WHERE id = $1`,
+        [job.id, failed ? 'failed' : 'completed']
+      );
+      const imported = results.filter(r => r.status === 'imported');
+      const records = imported.reduce((sum, r) => sum + (r.recordsImported || 0), 0);
+      if (records > 0) {
+        await recordEvent({ userId: job.user_id, type: 'upload', data: { files: imported.length, records } });
+      }
+      runMetadataWorker();
+      await evaluateAchievements(job.user_id)
+        .catch(e => console.error('Error evaluating achievements:', e));
+      if (records > 0) {
+        await notifyOvertakes(job.user_id, totalsBefore)
+          .catch(e => console.error('Error recording overtakes:', e));
+      }
+    } catch (e) {
+      console.error(`Import job ${job.id} failed:`, e);
+      await pool.query(
+        `UPDATE import_jobs SET status = 'failed', finished_at = CURRENT_TIMESTAMP,
+           errors = errors || $2::jsonb
+         WHERE id = $1`,
+        [job.id, JSON.stringify([(e as Error).message || 'Import failed'])]
+      );
+    } finally {
+      // Uploads are temp files; however the job ended, none are needed again.
+      for (const file of job.files) {
+        fs.rmSync(file.path, { force: true });
+      }
+    }
+  }
+}
+
+export function runImportWorker() {
+  if (draining) return;
+  draining = true;
+  drainQueue()
+    .catch(e => console.error('Import worker error:', e))
+    .finally(() => { draining = false; });
+}
+
+// A job still marked running when the server boots was cut off mid-import.
+// Each file is imported in its own transaction, so the files it finished stay
+// imported; the job is failed and the user can re-upload the rest, which only
+// adds plays that aren't already stored.
+export async function startImportWorker() {
+  const interrupted = await pool.query(`
+    UPDATE import_jobs SET status = 'failed', finished_at = CURRENT_TIMESTAMP,
+      errors = errors || '["Import was interrupted by a server restart"]'::jsonb
+    WHERE status = 'running'
+    RETURNING files
+  `);
+  for (const job of interrupted.rows) {
+    for (const file of job.files as UploadedFile[]) {
+      fs.rmSync(file.path, { force: true });
+    }
+  }
+
+  setInterval(runImportWorker, POLL_INTERVAL_MS);
+  runImportWorker();
+}
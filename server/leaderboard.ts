@@ -0,0 +1,147 @@
+import pool from './db';
+import { TimeRange, rangeParams } from './timeRange';
+import { getBadges } from './achievements';
+
+export interface LeaderboardCursor {
+  totalMs: number;
+  userId: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 10;
+export const MAX_PAGE_SIZE = 100;
+
+// Cursors point just past the last row of a page as (total_ms, user_id), which
+// is the leaderboard's sort key, so pages don't shift when an import moves
+// somebody ahead of the rows already shown.
+export function encodeCursor(cursor: LeaderboardCursor): string {
+  return Buffer.from(`${cursor.totalMs}:${cursor.userId}`).toString('base64url');
+}
+
+export function parseCursor(value: unknown): LeaderboardCursor | null {
+  if (typeof value !== 'string') return null;
+  const match = Buffer.from(value, 'base64url').toString().match(/^(\d+):(\d+)$/);
+  if (!match) return null;
+  return { totalMs: parseInt(match[1]), userId: parseInt(match[2]) };
+}
+
+export function parsePageSize(value: unknown, fallback = DEFAULT_PAGE_SIZE): number | null {
+  if (value === undefined) return fallback;
+  const size = typeof value === 'string' ? parseInt(value) : NaN;
+  if (isNaN(size) || size < 1) return null;
+  return Math.min(size, MAX_PAGE_SIZE);
+}
+
+// Every listener's total for the artist within the range, ranked. All-time
+// standings come from the rollups; a time window still has to scan the
+// artist's plays in streaming_history.
+function rankedListeners(artistId: number, range: TimeRange): { sql: string; params: unknown[] } {
+  const standings = range.key === 'all'
+    ? {
+        sql: `
+          SELECT a.user_id, a.total_ms, COALESCE(s.song_count, 0) as song_count
+          FROM (
+            SELECT user_id, total_ms
+            FROM user_artist_rollups
+            WHERE artist_id = $1
+          ) a
+          LEFT JOIN (
+            SELECT user_id, COUNT(DISTINCT track_name) as song_count
+            FROM user_track_rollups
+            WHERE artist_id = $1
+            GROUP BY user_id
+          ) s ON s.user_id = a.user_id`,
+        params: [artistId]
+      }
+    : {
+        sql: `
+          SELECT user_id, SUM(ms_played) as total_ms, COUNT(DISTINCT track_name) as song_count
+          FROM streaming_history
+          WHERE artist_id = $1
+            AND ($2::timestamp IS NULL OR ts >= $2)
+            AND ($3::timestamp IS NULL OR ts < $3)
+          GROUP BY user_id`,
+        params: [artistId, ...rangeParams(range)]
+      };
+
+  return {
+    sql: `
+      WITH standings AS (${standings.sql}
+      ), ranked AS (
+        SELECT *, ROW_NUMBER() OVER (ORDER BY total_ms DESC, user_id) as rank
+        FROM standings
+      )`,
+    params: standings.params
+  };
+}
+
+export async function getArtistLeaderboardPage(
+  artistId: number,
+  range: TimeRange,
+  currentUserId: number | null,
+  cursor: LeaderboardCursor | null,
+  limit: number
+) {
+  const ranked = rankedListeners(artistId, range);
+  const n = ranked.params.length;
+  const result = await pool.query(`${ranked.sql}
+    SELECT r.user_id, r.total_ms, r.song_count, r.rank, u.username, u.avatar
+    FROM ranked r
+    JOIN users u ON r.user_id = u.id
+    WHERE $${n + 1}::bigint IS NULL
+      OR r.total_ms < $${n + 1}
+      OR (r.total_ms = $${n + 1} AND r.user_id > $${n + 2})
+    ORDER BY r.rank
+    LIMIT $${n + 3}
+  `, [...ranked.params, cursor?.totalMs ?? null, cursor?.userId ?? null, limit + 1]);
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  const badges = await getBadges(rows.map(r => r.user_id), artistId);
+  return {
+    leaderboard: rows.map(r => ({
+      rank: parseInt(r.rank),
+      userId: r.user_id,
+      username: r.username,
+      avatar: r.avatar,
+      minutes: Math.round(parseInt(r.total_ms) / 60000),
+      songCount: parseInt(r.song_count),
+      badges: badges.get(r.user_id) || [],
+      isCurrentUser: r.user_id === currentUserId
+    })),
+    nextCursor: result.rows.length > limit
+      ? encodeCursor({ totalMs: parseInt(last.total_ms), userId: last.user_id })
+      : null
+  };
+}
+
+// The viewer's own place on the board, wherever it is, plus how far they
+// trail the listener one place above them. Signed-out visitors have no place.
+export async function getViewerStanding(artistId: number, range: TimeRange, userId: number | null) {
+  const ranked = rankedListeners(artistId, range);
+  const n = ranked.params.length;
+  const result = await pool.query(`${ranked.sql}
+    SELECT
+      (SELECT COUNT(*) FROM ranked) as total_listeners,
+      v.rank, v.total_ms, v.song_count,
+      ahead.total_ms as ahead_total_ms,
+      ahead_user.username as ahead_username
+    FROM (SELECT 1) one
+    LEFT JOIN ranked v ON v.user_id = $${n + 1}
+    LEFT JOIN ranked ahead ON ahead.rank = v.rank - 1
+    LEFT JOIN users ahead_user ON ahead_user.id = ahead.user_id
+  `, [...ranked.params, userId]);
+
+  const row = result.rows[0];
+  return {
+    totalListeners: parseInt(row.total_listeners),
+    viewer: row.rank === null ? null : {
+      rank: parseInt(row.rank),
+      minutes: Math.round(parseInt(row.total_ms) / 60000),
+      songCount: parseInt(row.song_count),
+      minutesBehindNext: row.ahead_total_ms === null
+        ? null
+        : Math.ceil((parseInt(row.ahead_total_ms) - parseInt(row.total_ms)) / 60000),
+      nextUsername: row.ahead_username
+    }
+  };
+}
@@ -0,0 +1,18 @@
+import pool from './db';
+import { mergeArtists } from './artists';
+
+const [fromId, intoId] = process.argv.slice(2).map(arg => parseInt(arg));
+if (isNaN(fromId) || isNaN(intoId)) {
+  console.error('Usage: npm run artists:merge -- <fromArtistId> <intoArtistId>');
+  process.exit(1);
+}
+
+mergeArtists(fromId, intoId)
+  .then(() => {
+    console.log(`Merged artist ${fromId} into ${intoId}`);
+    return pool.end();
+  })
+  .catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
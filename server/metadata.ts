@@ -0,0 +1,100 @@
+import pool from './db';
+import { linkTrackArtist } from './artists';
+import { METADATA_BATCH_SIZE, SpotifyMetadataClient, getMetadataClient } from './spotify';
+
+const POLL_INTERVAL_MS = 60000;
+
+let filling = false;
+
+// Fills track_metadata for track URIs that have plays but no catalogue entry
+// yet, and links each track to the artist Spotify credits. Returns how many
+// URIs were looked up.
+async function fillTracks(client: SpotifyMetadataClient): Promise<number> {
+  const pending = await pool.query(`
+    SELECT DISTINCT sh.spotify_track_uri
+    FROM streaming_history sh
+    WHERE sh.spotify_track_uri IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM track_metadata tm WHERE tm.spotify_track_uri = sh.spotify_track_uri)
+    LIMIT $1
+  `, [METADATA_BATCH_SIZE]);
+  const uris: string[] = pending.rows.map(r => r.spotify_track_uri);
+  if (uris.length === 0) {
+    return 0;
+  }
+
+  const tracks = await client.getTracks(uris);
+  for (let i = 0; i < uris.length; i++) {
+    const track = tracks[i];
+    if (!track) {
+      await pool.query(
+        `INSERT INTO track_metadata (spotify_track_uri, found) VALUES ($1, FALSE)
+         ON CONFLICT (spotify_track_uri) DO NOTHING`,
+        [uris[i]]
+      );
+      continue;
+    }
+
+    await pool.query(
+      `INSERT INTO track_metadata (spotify_track_uri, name, album_name, album_image_url, duration_ms, artist_spotify_ids)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (spotify_track_uri) DO UPDATE SET
+         found = TRUE, name = EXCLUDED.name, album_name = EXCLUDED.album_name,
+         album_image_url = EXCLUDED.album_image_url, duration_ms = EXCLUDED.duration_ms,
+         artist_spotify_ids = EXCLUDED.artist_spotify_ids, fetched_at = CURRENT_TIMESTAMP`,
+      [uris[i], track.name, track.albumName, track.albumImageUrl, track.durationMs, track.artists.map(a => a.id)]
+    );
+    const primaryArtist = track.artists[0];
+    if (primaryArtist) {
+      await linkTrackArtist(uris[i], primaryArtist.id, primaryArtist.name);
+    }
+  }
+  return uris.length;
+}
+
+// Fetches images and genres for artists whose Spotify id is known but whose
+// details haven't been looked up yet.
+async function fillArtists(client: SpotifyMetadataClient): Promise<number> {
+  const pending = await pool.query(
+    'SELECT spotify_id FROM artists WHERE spotify_id IS NOT NULL AND metadata_fetched_at IS NULL LIMIT $1',
+    [METADATA_BATCH_SIZE]
+  );
+  const ids: string[] = pending.rows.map(r => r.spotify_id);
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  const artists = await client.getArtists(ids);
+  for (let i = 0; i < ids.length; i++) {
+    const artist = artists[i];
+    await pool.query(
+      `UPDATE artists SET
+         image_url = COALESCE($2, image_url),
+         genres = COALESCE($3, genres),
+         metadata_fetched_at = CURRENT_TIMESTAMP
+       WHERE spotify_id = $1`,
+      [ids[i], artist?.imageUrl ?? null, artist?.genres ?? null]
+    );
+  }
+  return ids.length;
+}
+
+async function fillMetadata() {
+  const client = await getMetadataClient();
+  if (!client) return;
+
+  while ((await fillTracks(client)) > 0) {}
+  while ((await fillArtists(client)) > 0) {}
+}
+
+export function runMetadataWorker() {
+  if (filling) return;
+  filling = true;
+  fillMetadata()
+    .catch(e => console.error('Metadata worker error:', e))
+    .finally(() => { filling = false; });
+}
+
+export function startMetadataWorker() {
+  setInterval(runMetadataWorker, POLL_INTERVAL_MS);
+  runMetadataWorker();
+}
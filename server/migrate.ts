@@ -0,0 +1,11 @@
+import pool, { runMigrations } from './db';
+
+runMigrations()
+  .then(() => {
+    console.log('Migrations complete');
+    return pool.end();
+  })
+  .catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,11 @@
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS content_type VARCHAR(20) NOT NULL DEFAULT 'track';
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS episode_name VARCHAR(500);
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS show_name VARCHAR(500);
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS spotify_episode_uri VARCHAR(255);
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS audiobook_title VARCHAR(500);
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS audiobook_chapter_title VARCHAR(500);
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS audiobook_uri VARCHAR(255);
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS audiobook_chapter_uri VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_streaming_history_show ON streaming_history(show_name);
+CREATE INDEX IF NOT EXISTS idx_streaming_history_audiobook ON streaming_history(audiobook_title);
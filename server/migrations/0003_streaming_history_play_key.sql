@@ -0,0 +1,16 @@
+-- Collapse plays that were imported more than once before the key existed.
+DELETE FROM streaming_history a
+USING streaming_history b
+WHERE a.id > b.id
+  AND a.user_id = b.user_id
+  AND a.ts = b.ts
+  AND a.ms_played = b.ms_played
+  AND COALESCE(a.spotify_track_uri, a.spotify_episode_uri, a.audiobook_chapter_uri, '')
+    = COALESCE(b.spotify_track_uri, b.spotify_episode_uri, b.audiobook_chapter_uri, '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_streaming_history_play ON streaming_history (
+  user_id,
+  ts,
+  (COALESCE(spotify_track_uri, spotify_episode_uri, audiobook_chapter_uri, '')),
+  ms_played
+);
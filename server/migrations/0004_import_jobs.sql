@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  files JSONB NOT NULL DEFAULT '[]',
+  files_total INTEGER DEFAULT 0,
+  files_processed INTEGER DEFAULT 0,
+  records_inserted INTEGER DEFAULT 0,
+  records_duplicate INTEGER DEFAULT 0,
+  records_rejected INTEGER DEFAULT 0,
+  results JSONB NOT NULL DEFAULT '[]',
+  errors JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_status ON import_jobs(status, created_at);
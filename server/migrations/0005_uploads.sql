@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS uploads (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  original_filename VARCHAR(500) NOT NULL,
+  file_hash VARCHAR(64) NOT NULL,
+  record_count INTEGER DEFAULT 0,
+  first_played_at TIMESTAMP,
+  last_played_at TIMESTAMP,
+  uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(user_id, file_hash)
+);
+
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS upload_id INTEGER REFERENCES uploads(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_streaming_history_upload ON streaming_history(upload_id);
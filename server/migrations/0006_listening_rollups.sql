@@ -0,0 +1,143 @@
+CREATE TABLE IF NOT EXISTS user_artist_rollups (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  artist_name VARCHAR(500) NOT NULL,
+  total_ms BIGINT NOT NULL DEFAULT 0,
+  plays INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, artist_name)
+);
+
+CREATE TABLE IF NOT EXISTS user_track_rollups (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  track_name VARCHAR(500) NOT NULL,
+  artist_name VARCHAR(500) NOT NULL DEFAULT '',
+  total_ms BIGINT NOT NULL DEFAULT 0,
+  plays INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, track_name, artist_name)
+);
+
+CREATE TABLE IF NOT EXISTS user_daily_rollups (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  total_ms BIGINT NOT NULL DEFAULT 0,
+  plays INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_artist_rollups_artist ON user_artist_rollups(lower(artist_name), total_ms DESC);
+CREATE INDEX IF NOT EXISTS idx_user_track_rollups_artist ON user_track_rollups(lower(artist_name));
+CREATE INDEX IF NOT EXISTS idx_streaming_history_artist_ts ON streaming_history(lower(artist_name), ts);
+
+-- Statement-level triggers keep the rollups in step with every write to
+-- streaming_history: imports, Spotify sync, and upload deletions (which reach
+-- streaming_history through ON DELETE CASCADE).
+CREATE OR REPLACE FUNCTION streaming_history_rollups_add() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO user_artist_rollups (user_id, artist_name, total_ms, plays)
+  SELECT user_id, artist_name, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE artist_name IS NOT NULL
+  GROUP BY user_id, artist_name
+  ON CONFLICT (user_id, artist_name) DO UPDATE SET
+    total_ms = user_artist_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_artist_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ON CONFLICT (user_id, track_name, artist_name) DO UPDATE SET
+    total_ms = user_track_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_track_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  GROUP BY user_id, ts::date
+  ON CONFLICT (user_id, day) DO UPDATE SET
+    total_ms = user_daily_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_daily_rollups.plays + EXCLUDED.plays;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION streaming_history_rollups_remove() RETURNS trigger AS $$
+BEGIN
+  UPDATE user_artist_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, artist_name, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE artist_name IS NOT NULL
+    GROUP BY user_id, artist_name
+  ) d
+  WHERE r.user_id = d.user_id AND r.artist_name = d.artist_name;
+  DELETE FROM user_artist_rollups WHERE plays <= 0;
+
+  UPDATE user_track_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, track_name, COALESCE(artist_name, '') AS artist_name, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE track_name IS NOT NULL
+    GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ) d
+  WHERE r.user_id = d.user_id AND r.track_name = d.track_name AND r.artist_name = d.artist_name;
+  DELETE FROM user_track_rollups WHERE plays <= 0;
+
+  UPDATE user_daily_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, ts::date AS day, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    GROUP BY user_id, ts::date
+  ) d
+  WHERE r.user_id = d.user_id AND r.day = d.day;
+  DELETE FROM user_daily_rollups WHERE plays <= 0;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS streaming_history_rollups_insert ON streaming_history;
+CREATE TRIGGER streaming_history_rollups_insert
+  AFTER INSERT ON streaming_history
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION streaming_history_rollups_add();
+
+DROP TRIGGER IF EXISTS streaming_history_rollups_delete ON streaming_history;
+CREATE TRIGGER streaming_history_rollups_delete
+  AFTER DELETE ON streaming_history
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION streaming_history_rollups_remove();
+
+-- Recomputes every rollup from streaming_history; run by this migration to
+-- backfill and by `npm run db:rebuild-rollups` if the rollups ever drift.
+CREATE OR REPLACE FUNCTION rebuild_listening_rollups() RETURNS void AS $$
+BEGIN
+  TRUNCATE user_artist_rollups, user_track_rollups, user_daily_rollups;
+
+  INSERT INTO user_artist_rollups (user_id, artist_name, total_ms, plays)
+  SELECT user_id, artist_name, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE artist_name IS NOT NULL
+  GROUP BY user_id, artist_name;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '');
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  GROUP BY user_id, ts::date;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT rebuild_listening_rollups();
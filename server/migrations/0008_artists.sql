@@ -0,0 +1,237 @@
+CREATE TABLE IF NOT EXISTS artists (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(500) NOT NULL,
+  spotify_id VARCHAR(64) UNIQUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every spelling an artist has been seen under. normalized_name is what
+-- incoming names are matched on, so capitalisation, spacing and a leading
+-- "The" don't split an artist; pointing an alias at another artist merges it.
+CREATE TABLE IF NOT EXISTS artist_aliases (
+  id SERIAL PRIMARY KEY,
+  artist_id INTEGER NOT NULL REFERENCES artists(id) ON DELETE CASCADE,
+  alias VARCHAR(500) NOT NULL,
+  normalized_name VARCHAR(500) NOT NULL UNIQUE
+);
+
+-- The credited artist of a Spotify track, when known from Spotify itself
+-- rather than from the album artist name in the export (which credits
+-- compilation tracks to "Various Artists").
+CREATE TABLE IF NOT EXISTS track_artists (
+  spotify_track_uri VARCHAR(255) PRIMARY KEY,
+  artist_id INTEGER NOT NULL REFERENCES artists(id) ON DELETE CASCADE,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_aliases_artist ON artist_aliases(artist_id);
+CREATE INDEX IF NOT EXISTS idx_artist_aliases_alias_trgm ON artist_aliases USING gin (alias gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_track_artists_artist ON track_artists(artist_id);
+
+CREATE OR REPLACE FUNCTION normalize_artist_name(p_name TEXT) RETURNS TEXT AS $$
+  SELECT regexp_replace(regexp_replace(lower(btrim(p_name)), '\s+', ' ', 'g'), '^the ', '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Returns the artist a name belongs to, creating the artist on first sight.
+-- A new alias stays locked until the caller commits, and anyone else meeting
+-- the same name waits on it, so new names should be resolved in short
+-- transactions (the importer does this before each batch rather than leaving
+-- it to the insert trigger). If two callers race, only one alias wins; the
+-- loser drops its artist and uses the winner's.
+CREATE OR REPLACE FUNCTION resolve_artist(p_name TEXT) RETURNS INTEGER AS $$
+DECLARE
+  normalized TEXT := normalize_artist_name(p_name);
+  resolved INTEGER;
+BEGIN
+  IF normalized IS NULL OR normalized = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT artist_id INTO resolved FROM artist_aliases WHERE normalized_name = normalized;
+  IF resolved IS NOT NULL THEN
+    RETURN resolved;
+  END IF;
+
+  INSERT INTO artists (name) VALUES (btrim(p_name)) RETURNING id INTO resolved;
+  INSERT INTO artist_aliases (artist_id, alias, normalized_name)
+  VALUES (resolved, btrim(p_name), normalized)
+  ON CONFLICT (normalized_name) DO NOTHING;
+  IF NOT FOUND THEN
+    DELETE FROM artists WHERE id = resolved;
+    SELECT artist_id INTO resolved FROM artist_aliases WHERE normalized_name = normalized;
+  END IF;
+  RETURN resolved;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE streaming_history ADD COLUMN IF NOT EXISTS artist_id INTEGER REFERENCES artists(id);
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS artist_id INTEGER REFERENCES artists(id) ON DELETE CASCADE;
+
+-- Backfill: one artist per normalized name, named after its most-played
+-- spelling, then link existing plays and comments.
+DO $$
+DECLARE
+  spelling RECORD;
+BEGIN
+  FOR spelling IN
+    SELECT DISTINCT ON (normalize_artist_name(artist_name)) artist_name
+    FROM (
+      SELECT artist_name, SUM(ms_played) AS total_ms FROM streaming_history
+      WHERE artist_name IS NOT NULL GROUP BY artist_name
+      UNION ALL
+      SELECT artist_name, 0 FROM comments
+    ) spellings
+    ORDER BY normalize_artist_name(artist_name), total_ms DESC
+  LOOP
+    PERFORM resolve_artist(spelling.artist_name);
+  END LOOP;
+END;
+$$;
+
+UPDATE streaming_history sh SET artist_id = aa.artist_id
+FROM artist_aliases aa
+WHERE sh.artist_name IS NOT NULL AND aa.normalized_name = normalize_artist_name(sh.artist_name);
+
+UPDATE comments c SET artist_id = aa.artist_id
+FROM artist_aliases aa
+WHERE aa.normalized_name = normalize_artist_name(c.artist_name);
+
+DELETE FROM comments WHERE artist_id IS NULL;
+ALTER TABLE comments ALTER COLUMN artist_id SET NOT NULL;
+
+DROP INDEX IF EXISTS idx_streaming_history_artist_ts;
+CREATE INDEX IF NOT EXISTS idx_streaming_history_artist_id_ts ON streaming_history(artist_id, ts);
+CREATE INDEX IF NOT EXISTS idx_comments_artist_id ON comments(artist_id);
+
+-- Links each new play to its artist: the track's known artist first, then the
+-- artist its name resolves to.
+CREATE OR REPLACE FUNCTION streaming_history_set_artist() RETURNS trigger AS $$
+BEGIN
+  IF NEW.artist_id IS NULL AND NEW.spotify_track_uri IS NOT NULL THEN
+    SELECT artist_id INTO NEW.artist_id FROM track_artists WHERE spotify_track_uri = NEW.spotify_track_uri;
+  END IF;
+  IF NEW.artist_id IS NULL AND NEW.artist_name IS NOT NULL THEN
+    NEW.artist_id := resolve_artist(NEW.artist_name);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS streaming_history_set_artist ON streaming_history;
+CREATE TRIGGER streaming_history_set_artist
+  BEFORE INSERT ON streaming_history
+  FOR EACH ROW EXECUTE FUNCTION streaming_history_set_artist();
+
+-- Artist rollups are now keyed by artist id, and track rollups carry it.
+DROP TABLE IF EXISTS user_artist_rollups;
+CREATE TABLE user_artist_rollups (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  artist_id INTEGER NOT NULL REFERENCES artists(id) ON DELETE CASCADE,
+  total_ms BIGINT NOT NULL DEFAULT 0,
+  plays INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, artist_id)
+);
+CREATE INDEX IF NOT EXISTS idx_user_artist_rollups_artist ON user_artist_rollups(artist_id, total_ms DESC);
+
+ALTER TABLE user_track_rollups ADD COLUMN IF NOT EXISTS artist_id INTEGER REFERENCES artists(id) ON DELETE SET NULL;
+DROP INDEX IF EXISTS idx_user_track_rollups_artist;
+CREATE INDEX IF NOT EXISTS idx_user_track_rollups_artist ON user_track_rollups(artist_id);
+
+CREATE OR REPLACE FUNCTION streaming_history_rollups_add() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id
+  ON CONFLICT (user_id, artist_id) DO UPDATE SET
+    total_ms = user_artist_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_artist_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, artist_id, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), MAX(artist_id), SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ON CONFLICT (user_id, track_name, artist_name) DO UPDATE SET
+    artist_id = COALESCE(EXCLUDED.artist_id, user_track_rollups.artist_id),
+    total_ms = user_track_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_track_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  GROUP BY user_id, ts::date
+  ON CONFLICT (user_id, day) DO UPDATE SET
+    total_ms = user_daily_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_daily_rollups.plays + EXCLUDED.plays;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION streaming_history_rollups_remove() RETURNS trigger AS $$
+BEGIN
+  UPDATE user_artist_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, artist_id, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE artist_id IS NOT NULL
+    GROUP BY user_id, artist_id
+  ) d
+  WHERE r.user_id = d.user_id AND r.artist_id = d.artist_id;
+  DELETE FROM user_artist_rollups WHERE plays <= 0;
+
+  UPDATE user_track_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, track_name, COALESCE(artist_name, '') AS artist_name, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE track_name IS NOT NULL
+    GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ) d
+  WHERE r.user_id = d.user_id AND r.track_name = d.track_name AND r.artist_name = d.artist_name;
+  DELETE FROM user_track_rollups WHERE plays <= 0;
+
+  UPDATE user_daily_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, ts::date AS day, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    GROUP BY user_id, ts::date
+  ) d
+  WHERE r.user_id = d.user_id AND r.day = d.day;
+  DELETE FROM user_daily_rollups WHERE plays <= 0;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rebuild_listening_rollups() RETURNS void AS $$
+BEGIN
+  TRUNCATE user_artist_rollups, user_track_rollups, user_daily_rollups;
+
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, artist_id, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), MAX(artist_id), SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '');
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  GROUP BY user_id, ts::date;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT rebuild_listening_rollups();
@@ -0,0 +1,124 @@
+ALTER TABLE artists ADD COLUMN IF NOT EXISTS image_url VARCHAR(1000);
+ALTER TABLE artists ADD COLUMN IF NOT EXISTS genres TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE artists ADD COLUMN IF NOT EXISTS metadata_fetched_at TIMESTAMP;
+
+-- Spotify's catalogue entry for every track URI seen in streaming_history.
+-- found = false records a URI Spotify doesn't know, so it isn't asked again.
+CREATE TABLE IF NOT EXISTS track_metadata (
+  spotify_track_uri VARCHAR(255) PRIMARY KEY,
+  found BOOLEAN NOT NULL DEFAULT TRUE,
+  name VARCHAR(500),
+  album_name VARCHAR(500),
+  album_image_url VARCHAR(1000),
+  duration_ms INTEGER,
+  artist_spotify_ids TEXT[] NOT NULL DEFAULT '{}',
+  fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_streaming_history_track_uri ON streaming_history(spotify_track_uri);
+
+-- Track rollups remember a URI for each track so its album art can be shown.
+ALTER TABLE user_track_rollups ADD COLUMN IF NOT EXISTS spotify_track_uri VARCHAR(255);
+
+CREATE OR REPLACE FUNCTION streaming_history_rollups_add() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id
+  ON CONFLICT (user_id, artist_id) DO UPDATE SET
+    total_ms = user_artist_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_artist_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, artist_id, spotify_track_uri, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), MAX(artist_id), MAX(spotify_track_uri), SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ON CONFLICT (user_id, track_name, artist_name) DO UPDATE SET
+    artist_id = COALESCE(EXCLUDED.artist_id, user_track_rollups.artist_id),
+    spotify_track_uri = COALESCE(user_track_rollups.spotify_track_uri, EXCLUDED.spotify_track_uri),
+    total_ms = user_track_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_track_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  GROUP BY user_id, ts::date
+  ON CONFLICT (user_id, day) DO UPDATE SET
+    total_ms = user_daily_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_daily_rollups.plays + EXCLUDED.plays;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Moving plays to another artist (metadata relinking a track, or an artist
+-- merge) shifts their listening between the two artists' rollups.
+CREATE OR REPLACE FUNCTION streaming_history_rollups_relink() RETURNS trigger AS $$
+BEGIN
+  UPDATE user_artist_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, artist_id, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE artist_id IS NOT NULL
+    GROUP BY user_id, artist_id
+  ) d
+  WHERE r.user_id = d.user_id AND r.artist_id = d.artist_id;
+  DELETE FROM user_artist_rollups WHERE plays <= 0;
+
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id
+  ON CONFLICT (user_id, artist_id) DO UPDATE SET
+    total_ms = user_artist_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_artist_rollups.plays + EXCLUDED.plays;
+
+  UPDATE user_track_rollups r SET artist_id = n.artist_id
+  FROM (
+    SELECT user_id, track_name, COALESCE(artist_name, '') AS artist_name, MAX(artist_id) AS artist_id
+    FROM new_rows
+    WHERE track_name IS NOT NULL
+    GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ) n
+  WHERE r.user_id = n.user_id AND r.track_name = n.track_name AND r.artist_name = n.artist_name;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS streaming_history_rollups_update ON streaming_history;
+CREATE TRIGGER streaming_history_rollups_update
+  AFTER UPDATE ON streaming_history
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION streaming_history_rollups_relink();
+
+CREATE OR REPLACE FUNCTION rebuild_listening_rollups() RETURNS void AS $$
+BEGIN
+  TRUNCATE user_artist_rollups, user_track_rollups, user_daily_rollups;
+
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, artist_id, spotify_track_uri, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), MAX(artist_id), MAX(spotify_track_uri), SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '');
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  GROUP BY user_id, ts::date;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT rebuild_listening_rollups();
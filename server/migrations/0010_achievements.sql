@@ -0,0 +1,13 @@
+-- Badges earned by users, written by the achievements engine
+-- (server/achievements.ts). artist_id is set for achievements earned for a
+-- particular artist, such as being its GOAT, and NULL otherwise.
+CREATE TABLE IF NOT EXISTS achievements (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  artist_id INTEGER REFERENCES artists(id) ON DELETE CASCADE,
+  earned_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_achievements_unique ON achievements(user_id, code, COALESCE(artist_id, 0));
+CREATE INDEX IF NOT EXISTS idx_achievements_artist ON achievements(artist_id, code);
@@ -0,0 +1,46 @@
+CREATE TABLE IF NOT EXISTS follows (
+  follower_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  followee_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id <> followee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_follows_followee ON follows(followee_id);
+
+-- Things fans did, shown in their followers' feeds (server/feed.ts). type is
+-- upload, achievement_earned, achievement_lost or comment; details that don't
+-- have a column of their own go in data.
+CREATE TABLE IF NOT EXISTS activity_events (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL,
+  artist_id INTEGER REFERENCES artists(id) ON DELETE CASCADE,
+  comment_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_activity_events_user ON activity_events(user_id, created_at DESC, id DESC);
+
+-- Seed the feed with what already happened.
+INSERT INTO activity_events (user_id, type, data, created_at)
+SELECT
+  user_id,
+  'upload',
+  jsonb_build_object(
+    'files', (SELECT COUNT(*) FROM jsonb_array_elements(results) r WHERE r->>'status' = 'imported'),
+    'records', records_inserted
+  ),
+  finished_at
+FROM import_jobs
+WHERE status = 'completed' AND records_inserted > 0;
+
+INSERT INTO activity_events (user_id, type, artist_id, data, created_at)
+SELECT user_id, 'achievement_earned', artist_id, jsonb_build_object('code', code), earned_at
+FROM achievements;
+
+INSERT INTO activity_events (user_id, type, artist_id, comment_id, created_at)
+SELECT user_id, 'comment', artist_id, id, COALESCE(created_at, CURRENT_TIMESTAMP)
+FROM comments
+WHERE user_id IS NOT NULL;
@@ -0,0 +1,12 @@
+-- Replies point at the top-level comment they answer; threads are one level
+-- deep. A comment deleted while it still has replies keeps its row with
+-- deleted_at set so the thread stays intact.
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES comments(id) ON DELETE CASCADE;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+UPDATE comments SET likes = 0 WHERE likes IS NULL;
+ALTER TABLE comments ALTER COLUMN likes SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_artist_top ON comments(artist_id, likes DESC, id DESC) WHERE parent_id IS NULL;
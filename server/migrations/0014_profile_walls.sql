@@ -0,0 +1,12 @@
+-- Comments now belong to either an artist page or a fan's profile wall.
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS profile_user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE comments ALTER COLUMN artist_id DROP NOT NULL;
+ALTER TABLE comments ALTER COLUMN artist_name DROP NOT NULL;
+
+ALTER TABLE comments ADD CONSTRAINT comments_one_target CHECK ((artist_id IS NULL) <> (profile_user_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_comments_profile_top ON comments(profile_user_id, likes DESC, id DESC) WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_profile_user ON comments(profile_user_id);
+
+-- Fans can turn their wall off; existing comments are kept but hidden.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS comment_wall_enabled BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,17 @@
+-- Things that happened to a fan, shown under the bell (server/notifications.ts).
+-- type is overtaken, took_first, comment_like, comment_reply or wall_comment;
+-- actor_id is the fan who caused it, if any.
+CREATE TABLE IF NOT EXISTS notifications (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(30) NOT NULL,
+  actor_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  artist_id INTEGER REFERENCES artists(id) ON DELETE CASCADE,
+  comment_id INTEGER REFERENCES comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_comment ON notifications(comment_id);
@@ -0,0 +1,171 @@
+-- Podcast and audiobook totals per user, for profiles. The same triggers as
+-- the other rollups keep them current.
+CREATE TABLE IF NOT EXISTS user_show_rollups (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  show_name VARCHAR(500) NOT NULL,
+  total_ms BIGINT NOT NULL DEFAULT 0,
+  plays INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, show_name)
+);
+
+CREATE TABLE IF NOT EXISTS user_audiobook_rollups (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  audiobook_title VARCHAR(500) NOT NULL,
+  total_ms BIGINT NOT NULL DEFAULT 0,
+  plays INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, audiobook_title)
+);
+
+CREATE OR REPLACE FUNCTION streaming_history_rollups_add() RETURNS trigger AS $$
+BEGIN
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id
+  ON CONFLICT (user_id, artist_id) DO UPDATE SET
+    total_ms = user_artist_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_artist_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, artist_id, spotify_track_uri, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), MAX(artist_id), MAX(spotify_track_uri), SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ON CONFLICT (user_id, track_name, artist_name) DO UPDATE SET
+    artist_id = COALESCE(EXCLUDED.artist_id, user_track_rollups.artist_id),
+    spotify_track_uri = COALESCE(user_track_rollups.spotify_track_uri, EXCLUDED.spotify_track_uri),
+    total_ms = user_track_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_track_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  GROUP BY user_id, ts::date
+  ON CONFLICT (user_id, day) DO UPDATE SET
+    total_ms = user_daily_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_daily_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_show_rollups (user_id, show_name, total_ms, plays)
+  SELECT user_id, show_name, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE content_type = 'episode' AND show_name IS NOT NULL
+  GROUP BY user_id, show_name
+  ON CONFLICT (user_id, show_name) DO UPDATE SET
+    total_ms = user_show_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_show_rollups.plays + EXCLUDED.plays;
+
+  INSERT INTO user_audiobook_rollups (user_id, audiobook_title, total_ms, plays)
+  SELECT user_id, audiobook_title, SUM(ms_played), COUNT(*)
+  FROM new_rows
+  WHERE content_type = 'audiobook' AND audiobook_title IS NOT NULL
+  GROUP BY user_id, audiobook_title
+  ON CONFLICT (user_id, audiobook_title) DO UPDATE SET
+    total_ms = user_audiobook_rollups.total_ms + EXCLUDED.total_ms,
+    plays = user_audiobook_rollups.plays + EXCLUDED.plays;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION streaming_history_rollups_remove() RETURNS trigger AS $$
+BEGIN
+  UPDATE user_artist_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, artist_id, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE artist_id IS NOT NULL
+    GROUP BY user_id, artist_id
+  ) d
+  WHERE r.user_id = d.user_id AND r.artist_id = d.artist_id;
+  DELETE FROM user_artist_rollups WHERE plays <= 0;
+
+  UPDATE user_track_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, track_name, COALESCE(artist_name, '') AS artist_name, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE track_name IS NOT NULL
+    GROUP BY user_id, track_name, COALESCE(artist_name, '')
+  ) d
+  WHERE r.user_id = d.user_id AND r.track_name = d.track_name AND r.artist_name = d.artist_name;
+  DELETE FROM user_track_rollups WHERE plays <= 0;
+
+  UPDATE user_daily_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, ts::date AS day, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    GROUP BY user_id, ts::date
+  ) d
+  WHERE r.user_id = d.user_id AND r.day = d.day;
+  DELETE FROM user_daily_rollups WHERE plays <= 0;
+
+  UPDATE user_show_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, show_name, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE content_type = 'episode' AND show_name IS NOT NULL
+    GROUP BY user_id, show_name
+  ) d
+  WHERE r.user_id = d.user_id AND r.show_name = d.show_name;
+  DELETE FROM user_show_rollups WHERE plays <= 0;
+
+  UPDATE user_audiobook_rollups r SET
+    total_ms = r.total_ms - d.total_ms,
+    plays = r.plays - d.plays
+  FROM (
+    SELECT user_id, audiobook_title, SUM(ms_played) AS total_ms, COUNT(*) AS plays
+    FROM old_rows
+    WHERE content_type = 'audiobook' AND audiobook_title IS NOT NULL
+    GROUP BY user_id, audiobook_title
+  ) d
+  WHERE r.user_id = d.user_id AND r.audiobook_title = d.audiobook_title;
+  DELETE FROM user_audiobook_rollups WHERE plays <= 0;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rebuild_listening_rollups() RETURNS void AS $$
+BEGIN
+  TRUNCATE user_artist_rollups, user_track_rollups, user_daily_rollups, user_show_rollups, user_audiobook_rollups;
+
+  INSERT INTO user_artist_rollups (user_id, artist_id, total_ms, plays)
+  SELECT user_id, artist_id, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE artist_id IS NOT NULL
+  GROUP BY user_id, artist_id;
+
+  INSERT INTO user_track_rollups (user_id, track_name, artist_name, artist_id, spotify_track_uri, total_ms, plays)
+  SELECT user_id, track_name, COALESCE(artist_name, ''), MAX(artist_id), MAX(spotify_track_uri), SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE track_name IS NOT NULL
+  GROUP BY user_id, track_name, COALESCE(artist_name, '');
+
+  INSERT INTO user_daily_rollups (user_id, day, total_ms, plays)
+  SELECT user_id, ts::date, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  GROUP BY user_id, ts::date;
+
+  INSERT INTO user_show_rollups (user_id, show_name, total_ms, plays)
+  SELECT user_id, show_name, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE content_type = 'episode' AND show_name IS NOT NULL
+  GROUP BY user_id, show_name;
+
+  INSERT INTO user_audiobook_rollups (user_id, audiobook_title, total_ms, plays)
+  SELECT user_id, audiobook_title, SUM(ms_played), COUNT(*)
+  FROM streaming_history
+  WHERE content_type = 'audiobook' AND audiobook_title IS NOT NULL
+  GROUP BY user_id, audiobook_title;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT rebuild_listening_rollups();
@@ -0,0 +1,17 @@
+-- Which uploads contain each play. Overlapping exports share plays, so a play
+-- belongs to every upload it appears in rather than only the first one that
+-- inserted it; deleting an upload removes just the plays no other upload has.
+CREATE TABLE IF NOT EXISTS upload_plays (
+  upload_id INTEGER NOT NULL REFERENCES uploads(id) ON DELETE CASCADE,
+  play_id INTEGER NOT NULL REFERENCES streaming_history(id) ON DELETE CASCADE,
+  PRIMARY KEY (upload_id, play_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_plays_play ON upload_plays(play_id);
+
+INSERT INTO upload_plays (upload_id, play_id)
+SELECT upload_id, id FROM streaming_history WHERE upload_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Deleting an upload no longer cascades to its plays; the link table decides.
+ALTER TABLE streaming_history DROP COLUMN IF EXISTS upload_id;
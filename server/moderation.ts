@@ -0,0 +1,153 @@
+import pool from './db';
+
+export const MAX_COMMENT_LENGTH = 1000;
+
+export const REPORT_REASONS = ['spam', 'harassment', 'hate', 'off_topic', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+export type CommentCheck = { ok: true; content: string } | { ok: false; error: string };
+
+// A filter looks at cleaned-up comment text and returns why it can't be
+// posted, or null to let it through. Filters run in the order they were added.
+export type CommentFilter = (content: string) => string | null;
+
+// Control characters (newlines and tabs are fine) and invisible formatting
+// characters such as zero-width spaces and bidi overrides, which are mostly
+// used to disguise text. The zero-width joiner stays allowed for emoji.
+const DISALLOWED_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F\u200B\u200C\u200E\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/;
+
+const PROFANITY = ['fuck', 'fucking', 'shit', 'cunt', 'bitch', 'asshole', 'bastard', 'dickhead', 'wanker', 'twat'];
+const PROFANITY_PATTERN = new RegExp(`\\b(${PROFANITY.join('|')})\\b`, 'i');
+
+const LINK_PATTERN = /\b(https?:\/\/|www\.)|\b[a-z0-9-]+\.(com|net|org|io|ly|gg|co|me|xyz|info|biz|ru)\b/i;
+
+const filters: CommentFilter[] = [
+  content => PROFANITY_PATTERN.test(content) ? 'Please keep it friendly' : null,
+  content => LINK_PATTERN.test(content) ? 'Links are not allowed in comments' : null
+];
+
+export function addCommentFilter(filter: CommentFilter) {
+  filters.push(filter);
+}
+
+// Validates and tidies comment text before it is stored: trims it, collapses
+// runs of blank lines, and rejects it if it is blank, too long, contains
+// disallowed characters or is caught by a filter.
+export function checkComment(content: unknown): CommentCheck {
+  if (typeof content !== 'string') {
+    return { ok: false, error: 'Comment cannot be empty' };
+  }
+  const cleaned = content.normalize('NFC').replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!cleaned) {
+    return { ok: false, error: 'Comment cannot be empty' };
+  }
+  if (cleaned.length > MAX_COMMENT_LENGTH) {
+    return { ok: false, error: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+  if (DISALLOWED_CHARACTERS.test(cleaned)) {
+    return { ok: false, error: 'Comment contains characters that are not allowed' };
+  }
+  for (const filter of filters) {
+    const error = filter(cleaned);
+    if (error) {
+      return { ok: false, error };
+    }
+  }
+  return { ok: true, content: cleaned };
+}
+
+export function parseReportReason(value: unknown): ReportReason | null {
+  return REPORT_REASONS.includes(value as ReportReason) ? value as ReportReason : null;
+}
+
+// Files a report, or updates the reason if this fan already reported the
+// comment; either way the report goes (back) into the open queue.
+export async function reportComment(commentId: number, reporterId: number, reason: ReportReason, details: string | null) {
+  await pool.query(`
+    INSERT INTO comment_reports (comment_id, reporter_id, reason, details)
+    VALUES ($1, $2, $3, $4)
+    ON CONFLICT (comment_id, reporter_id) DO UPDATE SET
+      reason = EXCLUDED.reason,
+      details = EXCLUDED.details,
+      status = 'open',
+      resolved_by = NULL,
+      resolved_at = NULL,
+      created_at = CURRENT_TIMESTAMP
+  `, [commentId, reporterId, reason, details]);
+}
+
+// Reported comments with open reports, most reported first.
+export async function getModerationQueue(limit: number) {
+  const result = await pool.query(`
+    SELECT
+      c.id, c.content, c.created_at, c.parent_id,
+      u.id as user_id, u.username,
+      a.id as artist_id, a.name as artist_name,
+      wall.id as profile_user_id, wall.username as profile_username,
+      COUNT(*) as report_count,
+      array_agg(DISTINCT r.reason) as reasons,
+      array_remove(array_agg(r.details ORDER BY r.created_at), NULL) as details,
+      MIN(r.created_at) as first_reported_at
+    FROM comment_reports r
+    JOIN comments c ON c.id = r.comment_id
+    JOIN users u ON u.id = c.user_id
+    LEFT JOIN artists a ON a.id = c.artist_id
+    LEFT JOIN users wall ON wall.id = c.profile_user_id
+    WHERE r.status = 'open'
+    GROUP BY c.id, u.id, a.id, wall.id
+    ORDER BY COUNT(*) DESC, MIN(r.created_at)
+    LIMIT $1
+  `, [limit]);
+
+  return result.rows.map(r => ({
+    comment: {
+      id: r.id,
+      parentId: r.parent_id,
+      content: r.content,
+      createdAt: r.created_at
+    },
+    user: {
+      id: r.user_id,
+      username: r.username
+    },
+    artist: r.artist_id === null ? null : {
+      id: r.artist_id,
+      name: r.artist_name
+    },
+    profileUser: r.profile_user_id === null ? null : {
+      id: r.profile_user_id,
+      username: r.profile_username
+    },
+    reportCount: parseInt(r.report_count),
+    reasons: r.reasons as ReportReason[],
+    details: r.details as string[],
+    firstReportedAt: r.first_reported_at
+  }));
+}
+
+// Closes a comment's open reports. Removing hides the comment the way an
+// author's delete does but keeps its text, so the decision can be reviewed.
+export async function resolveReports(commentId: number, moderatorId: number, action: 'dismiss' | 'remove') {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(`
+      UPDATE comment_reports
+      SET status = $3, resolved_by = $2, resolved_at = CURRENT_TIMESTAMP
+      WHERE comment_id = $1 AND status = 'open'
+    `, [commentId, moderatorId, action === 'remove' ? 'removed' : 'dismissed']);
+    if (action === 'remove') {
+      await client.query(
+        'UPDATE comments SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL',
+        [commentId]
+      );
+    }
+    await client.query('COMMIT');
+    return result.rowCount ?? 0;
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,169 @@
+import pool from './db';
+
+export type NotificationType = 'overtaken' | 'took_first' | 'comment_like' | 'comment_reply' | 'wall_comment';
+
+export const NOTIFICATION_PAGE_SIZE = 20;
+
+export function encodeNotificationCursor(id: number): string {
+  return Buffer.from(String(id)).toString('base64url');
+}
+
+export function parseNotificationCursor(value: unknown): number | null {
+  if (typeof value !== 'string') return null;
+  const match = Buffer.from(value, 'base64url').toString().match(/^(\d+)$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+// A user's all-time minutes per artist, taken before an import so
+// notifyOvertakes can tell whose places changed.
+export async function snapshotArtistTotals(userId: number) {
+  const result = await pool.query('SELECT artist_id, total_ms FROM user_artist_rollups WHERE user_id = $1', [userId]);
+  return new Map<number, number>(result.rows.map(r => [r.artist_id, parseInt(r.total_ms)]));
+}
+
+// After `userId` imported plays, tells every fan they passed on an all-time
+// artist leaderboard, and tells `userId` about each artist they are now #1
+// for. Only this user's totals changed, so a fan was passed if they ranked
+// above the old total and rank below the new one (ties go to the lower id,
+// as on the leaderboards).
+export async function notifyOvertakes(userId: number, before: Map<number, number>) {
+  const passed = await pool.query(`
+    WITH before AS (
+      SELECT * FROM unnest($2::int[], $3::bigint[]) as b(artist_id, total_ms)
+    ), gained AS (
+      SELECT r.artist_id, COALESCE(b.total_ms, 0) as old_ms, r.total_ms as new_ms
+      FROM user_artist_rollups r
+      LEFT JOIN before b USING (artist_id)
+      WHERE r.user_id = $1 AND r.total_ms > COALESCE(b.total_ms, 0)
+    )
+    SELECT
+      g.artist_id, o.user_id,
+      NOT EXISTS (
+        SELECT 1 FROM user_artist_rollups a
+        WHERE a.artist_id = g.artist_id AND a.user_id <> $1
+          AND (a.total_ms > g.new_ms OR (a.total_ms = g.new_ms AND a.user_id < $1))
+      ) as now_first
+    FROM gained g
+    JOIN user_artist_rollups o ON o.artist_id = g.artist_id AND o.user_id <> $1
+    WHERE (o.total_ms > g.old_ms OR (o.total_ms = g.old_ms AND o.user_id < $1))
+      AND (o.total_ms < g.new_ms OR (o.total_ms = g.new_ms AND o.user_id > $1))
+  `, [userId, [...before.keys()], [...before.values()]]);
+
+  if (passed.rows.length === 0) {
+    return;
+  }
+  const firstArtists = [...new Set(passed.rows.filter(r => r.now_first).map(r => r.artist_id as number))];
+  await pool.query(`
+    INSERT INTO notifications (user_id, type, actor_id, artist_id)
+    SELECT passed_user_id, 'overtaken', $1::int, artist_id
+    FROM unnest($2::int[], $3::int[]) as p(passed_user_id, artist_id)
+    UNION ALL
+    SELECT $1::int, 'took_first', NULL, artist_id
+    FROM unnest($4::int[]) as f(artist_id)
+  `, [userId, passed.rows.map(r => r.user_id), passed.rows.map(r => r.artist_id), firstArtists]);
+}
+
+// Tells a comment's author that `actorId` liked it, or withdraws that
+// notification when the like is taken back so toggling doesn't pile them up.
+export async function notifyCommentLike(commentId: number, actorId: number, liked: boolean) {
+  await pool.query(
+    `DELETE FROM notifications WHERE type = 'comment_like' AND comment_id = $1 AND actor_id = $2`,
+    [commentId, actorId]
+  );
+  if (liked) {
+    await pool.query(`
+      INSERT INTO notifications (user_id, type, actor_id, comment_id)
+      SELECT user_id, 'comment_like', $2::int, id FROM comments WHERE id = $1 AND user_id <> $2
+    `, [commentId, actorId]);
+  }
+}
+
+// Tells whoever a new comment answers: the author of the comment replied to
+// and of its thread, or the wall's owner for a new post on their wall.
+export async function notifyNewComment(commentId: number, actorId: number, repliedToId: number | null) {
+  if (repliedToId !== null) {
+    await pool.query(`
+      INSERT INTO notifications (user_id, type, actor_id, comment_id)
+      SELECT DISTINCT c.user_id, 'comment_reply', $2::int, r.id
+      FROM comments r
+      JOIN comments c ON c.id IN ($3, r.parent_id)
+      WHERE r.id = $1 AND c.user_id <> $2 AND c.deleted_at IS NULL
+    `, [commentId, actorId, repliedToId]);
+  } else {
+    await pool.query(`
+      INSERT INTO notifications (user_id, type, actor_id, comment_id)
+      SELECT profile_user_id, 'wall_comment', $2::int, id
+      FROM comments
+      WHERE id = $1 AND profile_user_id IS NOT NULL AND profile_user_id <> $2
+    `, [commentId, actorId]);
+  }
+}
+
+export async function getUnreadCount(userId: number) {
+  const result = await pool.query(
+    'SELECT COUNT(*) FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+    [userId]
+  );
+  return parseInt(result.rows[0].count);
+}
+
+// A user's notifications, newest first. Comment notifications say where the
+// comment is, an artist page or a wall, so the client can link to it.
+export async function getNotifications(userId: number, cursor: number | null, limit: number) {
+  const result = await pool.query(`
+    SELECT
+      n.id, n.type, n.read_at, n.created_at,
+      actor.id as actor_id, actor.username as actor_username, actor.avatar as actor_avatar,
+      a.id as artist_id, a.name as artist_name, a.image_url as artist_image_url,
+      c.id as comment_id, c.content as comment_content, c.deleted_at as comment_deleted_at,
+      wall.id as profile_user_id, wall.username as profile_username
+    FROM notifications n
+    LEFT JOIN users actor ON actor.id = n.actor_id
+    LEFT JOIN comments c ON c.id = n.comment_id
+    LEFT JOIN artists a ON a.id = COALESCE(n.artist_id, c.artist_id)
+    LEFT JOIN users wall ON wall.id = c.profile_user_id
+    WHERE n.user_id = $1 AND ($2::int IS NULL OR n.id < $2)
+    ORDER BY n.id DESC
+    LIMIT $3
+  `, [userId, cursor, limit + 1]);
+
+  const rows = result.rows.slice(0, limit);
+  return {
+    notifications: rows.map(r => ({
+      id: r.id,
+      type: r.type as NotificationType,
+      read: r.read_at !== null,
+      createdAt: r.created_at,
+      actor: r.actor_id === null ? null : {
+        id: r.actor_id,
+        username: r.actor_username,
+        avatar: r.actor_avatar
+      },
+      artist: r.artist_id === null ? null : {
+        id: r.artist_id,
+        name: r.artist_name,
+        imageUrl: r.artist_image_url
+      },
+      comment: r.comment_id === null ? null : {
+        id: r.comment_id,
+        content: r.comment_deleted_at === null ? r.comment_content : null
+      },
+      profileUser: r.profile_user_id === null ? null : {
+        id: r.profile_user_id,
+        username: r.profile_username
+      }
+    })),
+    unreadCount: await getUnreadCount(userId),
+    nextCursor: result.rows.length > limit ? encodeNotificationCursor(rows[rows.length - 1].id) : null
+  };
+}
+
+// Marks one notification read, or all unread ones when `notificationId` is
+// null. Returns how many matched, so 0 for a single id means it isn't theirs.
+export async function markNotificationsRead(userId: number, notificationId: number | null) {
+  const result = await pool.query(`
+    UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP)
+    WHERE user_id = $1 AND ($2::int IS NULL AND read_at IS NULL OR id = $2)
+  `, [userId, notificationId]);
+  return result.rowCount ?? 0;
+}
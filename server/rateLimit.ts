@@ -0,0 +1,30 @@
+import express from 'express';
+
+interface RateLimitOptions {
+  // Requests allowed per user within windowMs.
+  max: number;
+  windowMs: number;
+}
+
+// Per-user sliding-window limiter for routes behind requireAuth. Counts live
+// in memory, so they reset on restart and aren't shared between instances.
+export function rateLimit({ max, windowMs }: RateLimitOptions) {
+  const hits = new Map<number, number[]>();
+
+  return (req: express.Request & { userId?: number }, res: express.Response, next: express.NextFunction) => {
+    if (!req.userId) {
+      return next();
+    }
+    const now = Date.now();
+    const recent = (hits.get(req.userId) || []).filter(t => t > now - windowMs);
+    if (recent.length >= max) {
+      const retryAfter = Math.ceil((recent[0] + windowMs - now) / 1000);
+      hits.set(req.userId, recent);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: `Too many requests, try again in ${retryAfter}s` });
+    }
+    recent.push(now);
+    hits.set(req.userId, recent);
+    next();
+  };
+}
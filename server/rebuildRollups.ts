@@ -0,0 +1,12 @@
+import pool from './db';
+import { rebuildRollups } from './rollups';
+
+rebuildRollups()
+  .then(() => {
+    console.log('Rollups rebuilt');
+    return pool.end();
+  })
+  .catch(err => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,144 @@
+// One entry of a Spotify Extended Streaming History file
+// (Streaming_History_Audio_*.json / Streaming_History_Video_*.json).
+export interface SpotifyStreamingRecord {
+  ts: string;
+  platform: string | null;
+  ms_played: number;
+  conn_country: string | null;
+  ip_addr: string | null;
+  master_metadata_track_name: string | null;
+  master_metadata_album_artist_name: string | null;
+  master_metadata_album_album_name: string | null;
+  spotify_track_uri: string | null;
+  episode_name: string | null;
+  episode_show_name: string | null;
+  spotify_episode_uri: string | null;
+  audiobook_title: string | null;
+  audiobook_uri: string | null;
+  audiobook_chapter_uri: string | null;
+  audiobook_chapter_title: string | null;
+  reason_start: string | null;
+  reason_end: string | null;
+  shuffle: boolean | null;
+  skipped: boolean | null;
+  offline: boolean | null;
+  offline_timestamp: number | null;
+  incognito_mode: boolean | null;
+}
+
+export type ContentType = 'track' | 'episode' | 'audiobook';
+
+export type SkipReason = 'zero_playtime' | 'no_content';
+
+export type RecordValidation =
+  | { status: 'accepted'; record: SpotifyStreamingRecord; contentType: ContentType }
+  | { status: 'skipped'; reason: SkipReason }
+  | { status: 'malformed'; error: string };
+
+const OPTIONAL_FIELDS: Record<
+  Exclude<keyof SpotifyStreamingRecord, 'ts' | 'ms_played'>,
+  'string' | 'number' | 'boolean'
+> = {
+  platform: 'string',
+  conn_country: 'string',
+  ip_addr: 'string',
+  master_metadata_track_name: 'string',
+  master_metadata_album_artist_name: 'string',
+  master_metadata_album_album_name: 'string',
+  spotify_track_uri: 'string',
+  episode_name: 'string',
+  episode_show_name: 'string',
+  spotify_episode_uri: 'string',
+  audiobook_title: 'string',
+  audiobook_uri: 'string',
+  audiobook_chapter_uri: 'string',
+  audiobook_chapter_title: 'string',
+  reason_start: 'string',
+  reason_end: 'string',
+  shuffle: 'boolean',
+  skipped: 'boolean',
+  offline: 'boolean',
+  offline_timestamp: 'number',
+  incognito_mode: 'boolean',
+};
+
+export function getContentType(record: SpotifyStreamingRecord): ContentType | null {
+  if (record.master_metadata_track_name) return 'track';
+  if (record.episode_name || record.spotify_episode_uri) return 'episode';
+  if (record.audiobook_title || record.audiobook_chapter_title) return 'audiobook';
+  return null;
+}
+
+// Missing optional fields are normalised to null; a field that is present with
+// the wrong type makes the whole record malformed rather than guessing.
+export function validateRecord(raw: unknown): RecordValidation {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { status: 'malformed', error: 'Record is not an object' };
+  }
+  const input = raw as Record<string, unknown>;
+
+  if (typeof input.ts !== 'string' || isNaN(Date.parse(input.ts))) {
+    return { status: 'malformed', error: 'Missing or invalid ts' };
+  }
+  if (typeof input.ms_played !== 'number' || !Number.isInteger(input.ms_played) || input.ms_played < 0) {
+    return { status: 'malformed', error: 'Missing or invalid ms_played' };
+  }
+
+  for (const [field, type] of Object.entries(OPTIONAL_FIELDS)) {
+    const value = input[field];
+    if (value !== undefined && value !== null && typeof value !== type) {
+      return { status: 'malformed', error: `Invalid ${field}` };
+    }
+  }
+
+  // Every optional field is now missing or of its declared type.
+  type OptionalField = keyof typeof OPTIONAL_FIELDS;
+  const text = (field: OptionalField) => {
+    const value = input[field];
+    return typeof value === 'string' ? value : null;
+  };
+  const flag = (field: OptionalField) => {
+    const value = input[field];
+    return typeof value === 'boolean' ? value : null;
+  };
+  const number = (field: OptionalField) => {
+    const value = input[field];
+    return typeof value === 'number' ? value : null;
+  };
+
+  const record: SpotifyStreamingRecord = {
+    ts: input.ts,
+    platform: text('platform'),
+    ms_played: input.ms_played,
+    conn_country: text('conn_country'),
+    ip_addr: text('ip_addr'),
+    master_metadata_track_name: text('master_metadata_track_name'),
+    master_metadata_album_artist_name: text('master_metadata_album_artist_name'),
+    master_metadata_album_album_name: text('master_metadata_album_album_name'),
+    spotify_track_uri: text('spotify_track_uri'),
+    episode_name: text('episode_name'),
+    episode_show_name: text('episode_show_name'),
+    spotify_episode_uri: text('spotify_episode_uri'),
+    audiobook_title: text('audiobook_title'),
+    audiobook_uri: text('audiobook_uri'),
+    audiobook_chapter_uri: text('audiobook_chapter_uri'),
+    audiobook_chapter_title: text('audiobook_chapter_title'),
+    reason_start: text('reason_start'),
+    reason_end: text('reason_end'),
+    shuffle: flag('shuffle'),
+    skipped: flag('skipped'),
+    offline: flag('offline'),
+    offline_timestamp: number('offline_timestamp'),
+    incognito_mode: flag('incognito_mode')
+  };
+
+  if (record.ms_played === 0) {
+    return { status: 'skipped', reason: 'zero_playtime' };
+  }
+  const contentType = getContentType(record);
+  if (!contentType) {
+    return { status: 'skipped', reason: 'no_content' };
+  }
+
+  return { status: 'accepted', record, contentType };
+}
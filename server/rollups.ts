@@ -0,0 +1,20 @@
+import pool from './db';
+
+// The user_*_rollups tables are kept current by triggers on streaming_history
+// (see migrations/0006_listening_rollups.sql), so imports, Spotify sync and
+// upload deletions never touch them directly. This recomputes them from
+// scratch for when they need repairing.
+export async function rebuildRollups() {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('LOCK TABLE streaming_history IN SHARE MODE');
+    await client.query('SELECT rebuild_listening_rollups()');
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw e;
+  } finally {
+    client.release();
+  }
+}
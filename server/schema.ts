@@ -0,0 +1,309 @@
+import { sql } from 'drizzle-orm';
+import {
+  pgTable,
+  serial,
+  integer,
+  varchar,
+  text,
+  boolean,
+  timestamp,
+  date,
+  bigint,
+  jsonb,
+  index,
+  primaryKey,
+  unique,
+  uniqueIndex,
+  check,
+  AnyPgColumn,
+} from 'drizzle-orm/pg-core';
+
+// Typed mirror of the schema built by server/migrations. The SQL files are the
+// source of truth; a change here needs a matching NNNN_name.sql migration.
+
+export const schemaMigrations = pgTable('schema_migrations', {
+  version: integer('version').primaryKey(),
+  name: varchar('name', { length: 255 }).notNull(),
+  appliedAt: timestamp('applied_at').defaultNow(),
+});
+
+export const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  username: varchar('username', { length: 255 }).unique().notNull(),
+  passwordHash: varchar('password_hash', { length: 255 }),
+  spotifyId: varchar('spotify_id', { length: 255 }),
+  spotifyConnected: boolean('spotify_connected').default(false),
+  avatar: varchar('avatar', { length: 50 }).default('goat'),
+  isModerator: boolean('is_moderator').notNull().default(false),
+  commentWallEnabled: boolean('comment_wall_enabled').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  usernameTrgmIdx: index('idx_users_username_trgm').using('gin', sql`${table.username} gin_trgm_ops`),
+}));
+
+export const artists = pgTable('artists', {
+  id: serial('id').primaryKey(),
+  name: varchar('name', { length: 500 }).notNull(),
+  spotifyId: varchar('spotify_id', { length: 64 }).unique(),
+  imageUrl: varchar('image_url', { length: 1000 }),
+  genres: text('genres').array().notNull().default(sql`'{}'`),
+  metadataFetchedAt: timestamp('metadata_fetched_at'),
+  createdAt: timestamp('created_at').defaultNow(),
+});
+
+export const artistAliases = pgTable('artist_aliases', {
+  id: serial('id').primaryKey(),
+  artistId: integer('artist_id').notNull().references(() => artists.id, { onDelete: 'cascade' }),
+  alias: varchar('alias', { length: 500 }).notNull(),
+  normalizedName: varchar('normalized_name', { length: 500 }).notNull().unique(),
+}, (table) => ({
+  artistIdx: index('idx_artist_aliases_artist').on(table.artistId),
+  aliasTrgmIdx: index('idx_artist_aliases_alias_trgm').using('gin', sql`${table.alias} gin_trgm_ops`),
+}));
+
+export const trackArtists = pgTable('track_artists', {
+  spotifyTrackUri: varchar('spotify_track_uri', { length: 255 }).primaryKey(),
+  artistId: integer('artist_id').notNull().references(() => artists.id, { onDelete: 'cascade' }),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+  artistIdx: index('idx_track_artists_artist').on(table.artistId),
+}));
+
+export const trackMetadata = pgTable('track_metadata', {
+  spotifyTrackUri: varchar('spotify_track_uri', { length: 255 }).primaryKey(),
+  found: boolean('found').notNull().default(true),
+  name: varchar('name', { length: 500 }),
+  albumName: varchar('album_name', { length: 500 }),
+  albumImageUrl: varchar('album_image_url', { length: 1000 }),
+  durationMs: integer('duration_ms'),
+  artistSpotifyIds: text('artist_spotify_ids').array().notNull().default(sql`'{}'`),
+  fetchedAt: timestamp('fetched_at').defaultNow(),
+});
+
+export const uploads = pgTable('uploads', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  originalFilename: varchar('original_filename', { length: 500 }).notNull(),
+  fileHash: varchar('file_hash', { length: 64 }).notNull(),
+  recordCount: integer('record_count').default(0),
+  firstPlayedAt: timestamp('first_played_at'),
+  lastPlayedAt: timestamp('last_played_at'),
+  uploadedAt: timestamp('uploaded_at').defaultNow(),
+}, (table) => ({
+  userHash: unique().on(table.userId, table.fileHash),
+}));
+
+export const streamingHistory = pgTable('streaming_history', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  ts: timestamp('ts').notNull(),
+  contentType: varchar('content_type', { length: 20 }).notNull().default('track'),
+  trackName: varchar('track_name', { length: 500 }),
+  artistName: varchar('artist_name', { length: 500 }),
+  artistId: integer('artist_id').references(() => artists.id),
+  albumName: varchar('album_name', { length: 500 }),
+  msPlayed: integer('ms_played').default(0),
+  spotifyTrackUri: varchar('spotify_track_uri', { length: 255 }),
+  episodeName: varchar('episode_name', { length: 500 }),
+  showName: varchar('show_name', { length: 500 }),
+  spotifyEpisodeUri: varchar('spotify_episode_uri', { length: 255 }),
+  audiobookTitle: varchar('audiobook_title', { length: 500 }),
+  audiobookChapterTitle: varchar('audiobook_chapter_title', { length: 500 }),
+  audiobookUri: varchar('audiobook_uri', { length: 255 }),
+  audiobookChapterUri: varchar('audiobook_chapter_uri', { length: 255 }),
+  platform: varchar('platform', { length: 50 }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_streaming_history_user').on(table.userId),
+  artistIdx: index('idx_streaming_history_artist').on(table.artistName),
+  showIdx: index('idx_streaming_history_show').on(table.showName),
+  audiobookIdx: index('idx_streaming_history_audiobook').on(table.audiobookTitle),
+  trackUriIdx: index('idx_streaming_history_track_uri').on(table.spotifyTrackUri),
+  artistTsIdx: index('idx_streaming_history_artist_id_ts').on(table.artistId, table.ts),
+  playKey: uniqueIndex('idx_streaming_history_play').on(
+    sql`${table.userId}`,
+    sql`${table.ts}`,
+    sql`(COALESCE(${table.spotifyTrackUri}, ${table.spotifyEpisodeUri}, ${table.audiobookChapterUri}, ''))`,
+    sql`${table.msPlayed}`
+  ),
+}));
+
+// Every upload a play appears in; overlapping exports share plays.
+export const uploadPlays = pgTable('upload_plays', {
+  uploadId: integer('upload_id').notNull().references(() => uploads.id, { onDelete: 'cascade' }),
+  playId: integer('play_id').notNull().references(() => streamingHistory.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.uploadId, table.playId] }),
+  playIdx: index('idx_upload_plays_play').on(table.playId),
+}));
+
+// Per-user listening totals maintained by triggers on streaming_history.
+export const userArtistRollups = pgTable('user_artist_rollups', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  artistId: integer('artist_id').notNull().references(() => artists.id, { onDelete: 'cascade' }),
+  totalMs: bigint('total_ms', { mode: 'number' }).notNull().default(0),
+  plays: integer('plays').notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.artistId] }),
+  artistIdx: index('idx_user_artist_rollups_artist').on(table.artistId, sql`${table.totalMs} DESC`),
+}));
+
+export const userTrackRollups = pgTable('user_track_rollups', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  trackName: varchar('track_name', { length: 500 }).notNull(),
+  artistName: varchar('artist_name', { length: 500 }).notNull().default(''),
+  artistId: integer('artist_id').references(() => artists.id, { onDelete: 'set null' }),
+  spotifyTrackUri: varchar('spotify_track_uri', { length: 255 }),
+  totalMs: bigint('total_ms', { mode: 'number' }).notNull().default(0),
+  plays: integer('plays').notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.trackName, table.artistName] }),
+  artistIdx: index('idx_user_track_rollups_artist').on(table.artistId),
+}));
+
+export const userDailyRollups = pgTable('user_daily_rollups', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  day: date('day').notNull(),
+  totalMs: bigint('total_ms', { mode: 'number' }).notNull().default(0),
+  plays: integer('plays').notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.day] }),
+}));
+
+export const userShowRollups = pgTable('user_show_rollups', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  showName: varchar('show_name', { length: 500 }).notNull(),
+  totalMs: bigint('total_ms', { mode: 'number' }).notNull().default(0),
+  plays: integer('plays').notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.showName] }),
+}));
+
+export const userAudiobookRollups = pgTable('user_audiobook_rollups', {
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  audiobookTitle: varchar('audiobook_title', { length: 500 }).notNull(),
+  totalMs: bigint('total_ms', { mode: 'number' }).notNull().default(0),
+  plays: integer('plays').notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.audiobookTitle] }),
+}));
+
+export const importJobs = pgTable('import_jobs', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  status: varchar('status', { length: 20 }).notNull().default('queued'),
+  files: jsonb('files').notNull().default([]),
+  filesTotal: integer('files_total').default(0),
+  filesProcessed: integer('files_processed').default(0),
+  recordsInserted: integer('records_inserted').default(0),
+  recordsDuplicate: integer('records_duplicate').default(0),
+  recordsRejected: integer('records_rejected').default(0),
+  results: jsonb('results').notNull().default([]),
+  errors: jsonb('errors').notNull().default([]),
+  createdAt: timestamp('created_at').defaultNow(),
+  startedAt: timestamp('started_at'),
+  finishedAt: timestamp('finished_at'),
+}, (table) => ({
+  statusIdx: index('idx_import_jobs_status').on(table.status, table.createdAt),
+}));
+
+export const comments = pgTable('comments', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  artistName: varchar('artist_name', { length: 500 }),
+  artistId: integer('artist_id').references(() => artists.id, { onDelete: 'cascade' }),
+  profileUserId: integer('profile_user_id').references(() => users.id, { onDelete: 'cascade' }),
+  parentId: integer('parent_id').references((): AnyPgColumn => comments.id, { onDelete: 'cascade' }),
+  content: text('content').notNull(),
+  likes: integer('likes').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow(),
+  editedAt: timestamp('edited_at'),
+  deletedAt: timestamp('deleted_at'),
+}, (table) => ({
+  artistIdx: index('idx_comments_artist').on(table.artistName),
+  artistIdIdx: index('idx_comments_artist_id').on(table.artistId),
+  parentIdx: index('idx_comments_parent').on(table.parentId, table.createdAt),
+  artistTopIdx: index('idx_comments_artist_top')
+    .on(table.artistId, sql`${table.likes} DESC`, sql`${table.id} DESC`)
+    .where(sql`${table.parentId} IS NULL`),
+  profileTopIdx: index('idx_comments_profile_top')
+    .on(table.profileUserId, sql`${table.likes} DESC`, sql`${table.id} DESC`)
+    .where(sql`${table.parentId} IS NULL`),
+  profileUserIdx: index('idx_comments_profile_user').on(table.profileUserId),
+  oneTarget: check('comments_one_target', sql`(${table.artistId} IS NULL) <> (${table.profileUserId} IS NULL)`),
+}));
+
+export const commentLikes = pgTable('comment_likes', {
+  id: serial('id').primaryKey(),
+  commentId: integer('comment_id').references(() => comments.id, { onDelete: 'cascade' }),
+  userId: integer('user_id').references(() => users.id, { onDelete: 'cascade' }),
+}, (table) => ({
+  commentUser: unique().on(table.commentId, table.userId),
+}));
+
+export const commentReports = pgTable('comment_reports', {
+  id: serial('id').primaryKey(),
+  commentId: integer('comment_id').notNull().references(() => comments.id, { onDelete: 'cascade' }),
+  reporterId: integer('reporter_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  reason: varchar('reason', { length: 30 }).notNull(),
+  details: text('details'),
+  status: varchar('status', { length: 20 }).notNull().default('open'),
+  resolvedBy: integer('resolved_by').references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp('resolved_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  commentReporter: unique().on(table.commentId, table.reporterId),
+  openIdx: index('idx_comment_reports_open').on(table.createdAt).where(sql`${table.status} = 'open'`),
+}));
+
+export const achievements = pgTable('achievements', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  code: varchar('code', { length: 50 }).notNull(),
+  artistId: integer('artist_id').references(() => artists.id, { onDelete: 'cascade' }),
+  earnedAt: timestamp('earned_at').notNull().defaultNow(),
+}, (table) => ({
+  userCodeArtist: uniqueIndex('idx_achievements_unique').on(
+    sql`${table.userId}`,
+    sql`${table.code}`,
+    sql`(COALESCE(${table.artistId}, 0))`
+  ),
+  artistIdx: index('idx_achievements_artist').on(table.artistId, table.code),
+}));
+
+export const follows = pgTable('follows', {
+  followerId: integer('follower_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  followeeId: integer('followee_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.followerId, table.followeeId] }),
+  followeeIdx: index('idx_follows_followee').on(table.followeeId),
+  notSelf: check('follows_check', sql`${table.followerId} <> ${table.followeeId}`),
+}));
+
+export const activityEvents = pgTable('activity_events', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 30 }).notNull(),
+  artistId: integer('artist_id').references(() => artists.id, { onDelete: 'cascade' }),
+  commentId: integer('comment_id').references(() => comments.id, { onDelete: 'cascade' }),
+  data: jsonb('data').notNull().default({}),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_activity_events_user').on(table.userId, sql`${table.createdAt} DESC`, sql`${table.id} DESC`),
+}));
+
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 30 }).notNull(),
+  actorId: integer('actor_id').references(() => users.id, { onDelete: 'cascade' }),
+  artistId: integer('artist_id').references(() => artists.id, { onDelete: 'cascade' }),
+  commentId: integer('comment_id').references(() => comments.id, { onDelete: 'cascade' }),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_notifications_user').on(table.userId, sql`${table.id} DESC`),
+  unreadIdx: index('idx_notifications_unread').on(table.userId).where(sql`${table.readAt} IS NULL`),
+  commentIdx: index('idx_notifications_comment').on(table.commentId),
+}));
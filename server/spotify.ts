@@ -1,4 +1,5 @@
 import { SpotifyApi } from "@spotify/web-api-ts-sdk";
+import fs from "fs";
 
 let connectionSettings: any;
 
@@ -59,3 +60,90 @@ export async function isSpotifyConnected(): Promise<boolean> {
     return false;
   }
 }
+
+export interface SpotifyTrackInfo {
+  uri: string;
+  name: string;
+  albumName: string | null;
+  albumImageUrl: string | null;
+  durationMs: number | null;
+  artists: Array<{ id: string; name: string }>;
+}
+
+export interface SpotifyArtistInfo {
+  id: string;
+  name: string;
+  imageUrl: string | null;
+  genres: string[];
+}
+
+// Catalogue lookups used to enrich stored plays. Results line up with the
+// requested ids, with null for anything Spotify doesn't know.
+export interface SpotifyMetadataClient {
+  getTracks(uris: string[]): Promise<Array<SpotifyTrackInfo | null>>;
+  getArtists(ids: string[]): Promise<Array<SpotifyArtistInfo | null>>;
+}
+
+export const METADATA_BATCH_SIZE = 50;
+
+export const spotifyMetadataClient: SpotifyMetadataClient = {
+  async getTracks(uris) {
+    const spotify = await getSpotifyClient();
+    const tracks = await spotify.tracks.get(uris.map(uri => uri.replace('spotify:track:', '')));
+    return uris.map((uri, i) => {
+      const track = tracks[i];
+      if (!track) return null;
+      return {
+        uri,
+        name: track.name,
+        albumName: track.album?.name || null,
+        albumImageUrl: track.album?.images?.[0]?.url || null,
+        durationMs: track.duration_ms ?? null,
+        artists: track.artists.map(a => ({ id: a.id, name: a.name }))
+      };
+    });
+  },
+
+  async getArtists(ids) {
+    const spotify = await getSpotifyClient();
+    const artists = await spotify.artists.get(ids);
+    return ids.map((id, i) => {
+      const artist = artists[i];
+      if (!artist) return null;
+      return {
+        id,
+        name: artist.name,
+        imageUrl: artist.images?.[0]?.url || null,
+        genres: artist.genres || []
+      };
+    });
+  }
+};
+
+interface MetadataFixtures {
+  tracks: Record<string, Omit<SpotifyTrackInfo, 'uri'>>;
+  artists: Record<string, Omit<SpotifyArtistInfo, 'id'>>;
+}
+
+// Offline stand-in for the Spotify catalogue, answering from a JSON file
+// shaped like server/fixtures/spotify-metadata.json.
+export function createFixtureMetadataClient(fixturePath: string): SpotifyMetadataClient {
+  const fixtures: MetadataFixtures = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+  return {
+    async getTracks(uris) {
+      return uris.map(uri => fixtures.tracks[uri] ? { uri, ...fixtures.tracks[uri] } : null);
+    },
+    async getArtists(ids) {
+      return ids.map(id => fixtures.artists[id] ? { id, ...fixtures.artists[id] } : null);
+    }
+  };
+}
+
+// SPOTIFY_METADATA_FIXTURES points at a fixture file to use instead of the
+// live API. Returns null when neither is available.
+export async function getMetadataClient(): Promise<SpotifyMetadataClient | null> {
+  if (process.env.SPOTIFY_METADATA_FIXTURES) {
+    return createFixtureMetadataClient(process.env.SPOTIFY_METADATA_FIXTURES);
+  }
+  return (await isSpotifyConnected()) ? spotifyMetadataClient : null;
+}
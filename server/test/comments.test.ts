@@ -0,0 +1,96 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import pool from '../db';
+import { addComment, checkCommentAccess, deleteComment, getComment } from '../comments';
+import { artistId, createUser, setupTestDb } from './db';
+
+let author: number;
+let wallOwner: number;
+let stranger: number;
+let artist: number;
+
+before(async () => {
+  await setupTestDb();
+  author = await createUser('author');
+  wallOwner = await createUser('wall-owner');
+  stranger = await createUser('stranger');
+  artist = await artistId('Commented');
+});
+
+test('only the author can edit a comment', async () => {
+  const commentId = await addComment({ artistId: artist }, author, 'first!', null);
+
+  assert.deepEqual(await checkCommentAccess(commentId, author, 'edit'), { ok: true });
+  assert.deepEqual(await checkCommentAccess(commentId, stranger, 'edit'), {
+    ok: false,
+    status: 403,
+    error: 'You can only edit your own comments'
+  });
+});
+
+test('the author and the wall owner can delete a wall comment, nobody else', async () => {
+  const commentId = await addComment({ profileUserId: wallOwner }, author, 'hi there', null);
+
+  assert.equal((await checkCommentAccess(commentId, author, 'delete')).ok, true);
+  assert.equal((await checkCommentAccess(commentId, wallOwner, 'delete')).ok, true);
+  const denied = await checkCommentAccess(commentId, stranger, 'delete');
+  assert.equal(denied.ok === false && denied.status, 403);
+
+  const comment = await getComment(commentId, wallOwner);
+  assert.equal(comment?.canDelete, true);
+  assert.equal((await getComment(commentId, stranger))?.canDelete, false);
+});
+
+test('the wall owner cannot edit comments on their wall', async () => {
+  const commentId = await addComment({ profileUserId: wallOwner }, author, 'edit me', null);
+
+  const denied = await checkCommentAccess(commentId, wallOwner, 'edit');
+  assert.equal(denied.ok === false && denied.status, 403);
+});
+
+test('on an artist page only the author can delete', async () => {
+  const commentId = await addComment({ artistId: artist }, author, 'artist page', null);
+
+  assert.equal((await checkCommentAccess(commentId, author, 'delete')).ok, true);
+  const denied = await checkCommentAccess(commentId, wallOwner, 'delete');
+  assert.equal(denied.ok === false && denied.status, 403);
+});
+
+test('fans can like and report others’ comments but not report their own', async () => {
+  const commentId = await addComment({ artistId: artist }, author, 'report me', null);
+
+  assert.equal((await checkCommentAccess(commentId, stranger, 'like')).ok, true);
+  assert.equal((await checkCommentAccess(commentId, author, 'like')).ok, true);
+  assert.equal((await checkCommentAccess(commentId, stranger, 'report')).ok, true);
+  const own = await checkCommentAccess(commentId, author, 'report');
+  assert.equal(own.ok === false && own.status, 400);
+});
+
+test('comments on a disabled wall cannot be liked or reported', async () => {
+  const closedWall = await createUser('closed-wall');
+  const commentId = await addComment({ profileUserId: closedWall }, author, 'still here', null);
+  await pool.query('UPDATE users SET comment_wall_enabled = false WHERE id = $1', [closedWall]);
+
+  for (const action of ['like', 'report'] as const) {
+    const hidden = await checkCommentAccess(commentId, stranger, action);
+    assert.equal(hidden.ok === false && hidden.status, 404);
+  }
+  assert.equal((await checkCommentAccess(commentId, author, 'delete')).ok, true);
+
+  await pool.query('UPDATE users SET comment_wall_enabled = true WHERE id = $1', [closedWall]);
+  assert.equal((await checkCommentAccess(commentId, stranger, 'like')).ok, true);
+});
+
+test('deleted and missing comments are not found for any action', async () => {
+  const threadId = await addComment({ artistId: artist }, author, 'thread', null);
+  await addComment({ artistId: artist }, stranger, 'reply', threadId);
+  // With a reply underneath, the thread is blanked rather than removed.
+  await deleteComment(threadId);
+
+  for (const action of ['edit', 'delete', 'like', 'report'] as const) {
+    const blanked = await checkCommentAccess(threadId, author, action);
+    assert.equal(blanked.ok === false && blanked.status, 404);
+    const missing = await checkCommentAccess(999999, author, action);
+    assert.equal(missing.ok === false && missing.status, 404);
+  }
+});
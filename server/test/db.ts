@@ -0,0 +1,56 @@
+import { PGlite } from '@electric-sql/pglite';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import pool, { runMigrations } from '../db';
+
+// Points the shared pool at an in-memory PGlite database with every migration
+// applied, so the modules under test run their real SQL. node --test runs each
+// test file in its own process, so every file starts from an empty database.
+export async function setupTestDb() {
+  const db = new PGlite({ extensions: { pg_trgm } });
+
+  // pg's result shape. Queries without parameters go through exec, which,
+  // like pg, accepts several statements at once (the migrations need that).
+  const query = async (sql: string, params?: unknown[]) => {
+    if (!params || params.length === 0) {
+      const results = await db.exec(sql);
+      const last = results[results.length - 1];
+      return { rows: last?.rows ?? [], rowCount: last?.affectedRows || last?.rows.length || 0 };
+    }
+    const result = await db.query(sql, params);
+    return { rows: result.rows, rowCount: result.affectedRows || result.rows.length };
+  };
+  // PGlite is a single connection, so every "client" shares it; tests run
+  // their queries one at a time, which keeps transactions from overlapping.
+  Object.assign(pool, {
+    query,
+    connect: async () => ({ query, release() {} })
+  });
+
+  const log = console.log;
+  console.log = () => {};
+  try {
+    await runMigrations();
+  } finally {
+    console.log = log;
+  }
+  return db;
+}
+
+export async function createUser(username: string): Promise<number> {
+  const result = await pool.query('INSERT INTO users (username) VALUES ($1) RETURNING id', [username]);
+  return result.rows[0].id;
+}
+
+// Stores one play of a track by `artistName`; the triggers resolve the artist
+// and keep the rollups current.
+export async function addPlay(userId: number, artistName: string, ts: string, msPlayed: number) {
+  await pool.query(`
+    INSERT INTO streaming_history (user_id, ts, content_type, track_name, artist_name, ms_played, spotify_track_uri)
+    VALUES ($1, $2, 'track', 'Song', $3, $4, $5)
+  `, [userId, ts, artistName, msPlayed, `spotify:track:${artistName}-${ts}`]);
+}
+
+export async function artistId(name: string): Promise<number> {
+  const result = await pool.query('SELECT resolve_artist($1) as id', [name]);
+  return result.rows[0].id;
+}
@@ -0,0 +1,136 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pool from '../db';
+import { deleteUpload, importRecords, importStreamingHistoryFile } from '../importer';
+import { createUser, setupTestDb } from './db';
+
+before(setupTestDb);
+
+const play = (ts: string, msPlayed: number, track = 'Song') => ({
+  ts,
+  ms_played: msPlayed,
+  master_metadata_track_name: track,
+  master_metadata_album_artist_name: 'Artist',
+  spotify_track_uri: `spotify:track:${track}`
+});
+
+async function artistTotal(userId: number) {
+  const result = await pool.query('SELECT total_ms FROM user_artist_rollups WHERE user_id = $1', [userId]);
+  return result.rows.length === 0 ? 0 : Number(result.rows[0].total_ms);
+}
+
+test('re-importing overlapping records only adds the new plays', async () => {
+  const userId = await createUser('overlap');
+  const first = await importRecords(userId, [play('2024-01-01T10:00:00Z', 1000), play('2024-01-02T10:00:00Z', 2000)]);
+  assert.equal(first.inserted, 2);
+  assert.equal(first.duplicates, 0);
+
+  const second = await importRecords(userId, [
+    play('2024-01-02T10:00:00Z', 2000),
+    play('2024-01-03T10:00:00Z', 3000)
+  ]);
+  assert.equal(second.inserted, 1);
+  assert.equal(second.duplicates, 1);
+
+  const stored = await pool.query('SELECT COUNT(*) FROM streaming_history WHERE user_id = $1', [userId]);
+  assert.equal(Number(stored.rows[0].count), 3);
+  assert.equal(await artistTotal(userId), 6000);
+});
+
+test('a play is only a duplicate when time, track and playtime all match', async () => {
+  const userId = await createUser('near-miss');
+  await importRecords(userId, [play('2024-02-01T10:00:00Z', 1000)]);
+
+  const result = await importRecords(userId, [
+    play('2024-02-01T10:00:00Z', 1500),
+    play('2024-02-01T10:00:00Z', 1000, 'Other Song')
+  ]);
+  assert.equal(result.inserted, 2);
+  assert.equal(result.duplicates, 0);
+});
+
+test('the same records for another user are not duplicates', async () => {
+  const first = await createUser('first-owner');
+  const second = await createUser('second-owner');
+  await importRecords(first, [play('2024-03-01T10:00:00Z', 1000)]);
+
+  const result = await importRecords(second, [play('2024-03-01T10:00:00Z', 1000)]);
+  assert.equal(result.inserted, 1);
+});
+
+test('skipped and malformed records are counted, not stored', async () => {
+  const userId = await createUser('rejects');
+  const result = await importRecords(userId, [
+    play('2024-04-01T10:00:00Z', 0),
+    { ts: '2024-04-01T11:00:00Z', ms_played: 1000 },
+    { ts: 'not a date', ms_played: 1000 },
+    play('2024-04-01T12:00:00Z', 1000)
+  ]);
+  assert.equal(result.inserted, 1);
+  assert.deepEqual(result.skipped, { zero_playtime: 1, no_content: 1 });
+  assert.equal(result.malformed, 1);
+});
+
+test('uploading the same file twice is recognised by its hash', async () => {
+  const userId = await createUser('reupload');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'herd-import-'));
+  const file = path.join(dir, 'Streaming_History_Audio_2024.json');
+  fs.writeFileSync(file, JSON.stringify([play('2024-05-01T10:00:00Z', 1000), play('2024-05-02T10:00:00Z', 1000)]));
+  try {
+    const first = await importStreamingHistoryFile(userId, file, 'Streaming_History_Audio_2024.json');
+    assert.equal(first.inserted, 2);
+    assert.ok(first.uploadId);
+
+    const second = await importStreamingHistoryFile(userId, file, 'Streaming_History_Audio_2024.json');
+    assert.equal(second.alreadyUploaded, true);
+    assert.equal(second.uploadId, first.uploadId);
+    assert.equal(second.inserted, 0);
+
+    const upload = await pool.query('SELECT record_count FROM uploads WHERE id = $1', [first.uploadId]);
+    assert.equal(upload.rows[0].record_count, 2);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('deleting an upload keeps the plays another upload also contains', async () => {
+  const userId = await createUser('overlapping-uploads');
+  const a = await importRecords(
+    userId,
+    [play('2024-06-01T10:00:00Z', 1000), play('2024-06-02T10:00:00Z', 2000)],
+    { filename: 'a.json', hash: 'a' }
+  );
+  const b = await importRecords(
+    userId,
+    [play('2024-06-02T10:00:00Z', 2000), play('2024-06-03T10:00:00Z', 3000)],
+    { filename: 'b.json', hash: 'b' }
+  );
+  assert.equal(b.duplicates, 1);
+
+  const counts = await pool.query('SELECT id, record_count FROM uploads WHERE user_id = $1 ORDER BY id', [userId]);
+  assert.deepEqual(counts.rows.map(r => r.record_count), [2, 2]);
+
+  assert.equal(await deleteUpload(userId, a.uploadId!), 1);
+
+  const stored = await pool.query('SELECT ms_played FROM streaming_history WHERE user_id = $1 ORDER BY ts', [userId]);
+  assert.deepEqual(stored.rows.map(r => r.ms_played), [2000, 3000]);
+  const remaining = await pool.query('SELECT record_count FROM uploads WHERE id = $1', [b.uploadId]);
+  assert.equal(remaining.rows[0].record_count, 2);
+  assert.equal(await artistTotal(userId), 5000);
+
+  assert.equal(await deleteUpload(userId, b.uploadId!), 2);
+  assert.equal(await artistTotal(userId), 0);
+});
+
+test('only the owner can delete an upload', async () => {
+  const owner = await createUser('upload-owner');
+  const other = await createUser('upload-other');
+  const result = await importRecords(owner, [play('2024-07-01T10:00:00Z', 1000)], { filename: 'c.json', hash: 'c' });
+
+  assert.equal(await deleteUpload(other, result.uploadId!), null);
+  const stored = await pool.query('SELECT COUNT(*) FROM streaming_history WHERE user_id = $1', [owner]);
+  assert.equal(Number(stored.rows[0].count), 1);
+});
@@ -0,0 +1,100 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import pool from '../db';
+import { notifyOvertakes, snapshotArtistTotals } from '../notifications';
+import { addPlay, artistId, createUser, setupTestDb } from './db';
+
+before(setupTestDb);
+
+async function notificationsFor(artistName: string) {
+  const result = await pool.query(`
+    SELECT u.username, n.type, actor.username as actor
+    FROM notifications n
+    JOIN users u ON u.id = n.user_id
+    LEFT JOIN users actor ON actor.id = n.actor_id
+    WHERE n.artist_id = $1
+    ORDER BY n.id
+  `, [await artistId(artistName)]);
+  return result.rows.map(r => [r.username, r.type, r.actor]);
+}
+
+// Plays `ms` of the artist as `userId` the way an import would, bracketed by
+// the snapshot and the overtake check.
+async function importPlay(userId: number, artistName: string, ts: string, ms: number) {
+  const totalsBefore = await snapshotArtistTotals(userId);
+  await addPlay(userId, artistName, ts, ms);
+  await notifyOvertakes(userId, totalsBefore);
+}
+
+test('fans passed on the leaderboard are told who overtook them', async () => {
+  const ana = await createUser('ana');
+  const ben = await createUser('ben');
+  const cal = await createUser('cal');
+  await addPlay(ana, 'Overtaken', '2024-01-01', 500);
+  await addPlay(ben, 'Overtaken', '2024-01-02', 200);
+
+  await importPlay(cal, 'Overtaken', '2024-02-01', 300);
+
+  assert.deepEqual(await notificationsFor('Overtaken'), [['ben', 'overtaken', 'cal']]);
+});
+
+test('taking #1 tells the new leader as well as the old one', async () => {
+  const dee = await createUser('dee');
+  const eve = await createUser('eve');
+  await addPlay(dee, 'Crown', '2024-01-01', 500);
+  await addPlay(eve, 'Crown', '2024-01-02', 100);
+
+  await importPlay(eve, 'Crown', '2024-02-01', 1000);
+
+  assert.deepEqual(await notificationsFor('Crown'), [
+    ['dee', 'overtaken', 'eve'],
+    ['eve', 'took_first', null]
+  ]);
+});
+
+test('drawing level only passes fans with a higher id, as on the leaderboard', async () => {
+  const fay = await createUser('fay');
+  const gus = await createUser('gus');
+  const hal = await createUser('hal');
+  await addPlay(fay, 'Tie', '2024-01-01', 300);
+  await addPlay(hal, 'Tie', '2024-01-02', 300);
+
+  // gus ends level with both: ahead of hal (higher id), still behind fay.
+  await importPlay(gus, 'Tie', '2024-02-01', 300);
+
+  assert.deepEqual(await notificationsFor('Tie'), [['hal', 'overtaken', 'gus']]);
+});
+
+test('nobody is notified when no place changes', async () => {
+  const ida = await createUser('ida');
+  const jon = await createUser('jon');
+  await addPlay(ida, 'Steady', '2024-01-01', 1000);
+  await addPlay(jon, 'Steady', '2024-01-02', 100);
+
+  await importPlay(jon, 'Steady', '2024-02-01', 100);
+  // Being the only listener of an artist isn't taking #1 from anyone.
+  await importPlay(jon, 'Solo', '2024-02-02', 100);
+
+  assert.deepEqual(await notificationsFor('Steady'), []);
+  assert.deepEqual(await notificationsFor('Solo'), []);
+});
+
+test('passing several fans in one import notifies each of them once', async () => {
+  const kim = await createUser('kim');
+  const lou = await createUser('lou');
+  const max = await createUser('max');
+  await addPlay(kim, 'Sweep', '2024-01-01', 300);
+  await addPlay(lou, 'Sweep', '2024-01-02', 200);
+  await addPlay(max, 'Sweep', '2024-01-03', 50);
+
+  const totalsBefore = await snapshotArtistTotals(max);
+  await addPlay(max, 'Sweep', '2024-02-01', 200);
+  await addPlay(max, 'Sweep', '2024-02-02', 200);
+  await notifyOvertakes(max, totalsBefore);
+
+  assert.deepEqual(await notificationsFor('Sweep'), [
+    ['kim', 'overtaken', 'max'],
+    ['lou', 'overtaken', 'max'],
+    ['max', 'took_first', null]
+  ]);
+});
@@ -0,0 +1,94 @@
+import { test, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { rateLimit } from '../rateLimit';
+
+afterEach(() => mock.timers.reset());
+
+// Runs the middleware for one request and reports whether it went through,
+// or the status and Retry-After it was turned away with.
+function hit(limiter: ReturnType<typeof rateLimit>, userId?: number) {
+  let passed = false;
+  const response = { status: 200, headers: {} as Record<string, string> };
+  const res = {
+    set(name: string, value: string) {
+      response.headers[name] = value;
+      return this;
+    },
+    status(code: number) {
+      response.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    }
+  };
+  const req = { userId } as express.Request & { userId?: number };
+  limiter(req, res as unknown as express.Response, () => { passed = true; });
+  return { passed, ...response };
+}
+
+test('allows up to max requests per window, then answers 429', () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = rateLimit({ max: 3, windowMs: 60_000 });
+
+  for (let i = 0; i < 3; i++) {
+    assert.equal(hit(limiter, 1).passed, true);
+  }
+  const blocked = hit(limiter, 1);
+  assert.equal(blocked.passed, false);
+  assert.equal(blocked.status, 429);
+  assert.equal(blocked.headers['Retry-After'], '60');
+});
+
+test('the window slides: a slot frees up as the oldest request ages out', () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = rateLimit({ max: 2, windowMs: 60_000 });
+
+  hit(limiter, 1);
+  mock.timers.tick(30_000);
+  hit(limiter, 1);
+  assert.equal(hit(limiter, 1).headers['Retry-After'], '30');
+
+  mock.timers.tick(30_001);
+  assert.equal(hit(limiter, 1).passed, true);
+  assert.equal(hit(limiter, 1).passed, false);
+});
+
+test('turned-away requests do not extend the wait', () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = rateLimit({ max: 1, windowMs: 10_000 });
+
+  hit(limiter, 1);
+  for (let i = 0; i < 5; i++) {
+    mock.timers.tick(1_000);
+    assert.equal(hit(limiter, 1).passed, false);
+  }
+  mock.timers.tick(5_001);
+  assert.equal(hit(limiter, 1).passed, true);
+});
+
+test('each user has their own allowance', () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const limiter = rateLimit({ max: 1, windowMs: 60_000 });
+
+  assert.equal(hit(limiter, 1).passed, true);
+  assert.equal(hit(limiter, 1).passed, false);
+  assert.equal(hit(limiter, 2).passed, true);
+});
+
+test('limiters keep separate counts', () => {
+  mock.timers.enable({ apis: ['Date'], now: 0 });
+  const comments = rateLimit({ max: 1, windowMs: 60_000 });
+  const likes = rateLimit({ max: 1, windowMs: 60_000 });
+
+  assert.equal(hit(comments, 1).passed, true);
+  assert.equal(hit(likes, 1).passed, true);
+});
+
+test('signed-out requests pass through for requireAuth to reject', () => {
+  const limiter = rateLimit({ max: 1, windowMs: 60_000 });
+
+  assert.equal(hit(limiter).passed, true);
+  assert.equal(hit(limiter).passed, true);
+});
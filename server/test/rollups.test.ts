@@ -0,0 +1,69 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import pool from '../db';
+import { importRecords } from '../importer';
+import { rebuildRollups } from '../rollups';
+import { createUser, setupTestDb } from './db';
+
+before(setupTestDb);
+
+const episode = (ts: string, msPlayed: number, show: string) => ({
+  ts,
+  ms_played: msPlayed,
+  episode_name: `${show} episode`,
+  episode_show_name: show,
+  spotify_episode_uri: `spotify:episode:${show}-${ts}`
+});
+
+const chapter = (ts: string, msPlayed: number, title: string) => ({
+  ts,
+  ms_played: msPlayed,
+  audiobook_title: title,
+  audiobook_chapter_title: `${title} chapter`,
+  audiobook_chapter_uri: `spotify:chapter:${title}-${ts}`
+});
+
+async function showTotals(userId: number) {
+  const result = await pool.query(
+    'SELECT show_name, total_ms, plays FROM user_show_rollups WHERE user_id = $1 ORDER BY show_name',
+    [userId]
+  );
+  return result.rows.map(r => [r.show_name, Number(r.total_ms), r.plays]);
+}
+
+async function audiobookTotals(userId: number) {
+  const result = await pool.query(
+    'SELECT audiobook_title, total_ms, plays FROM user_audiobook_rollups WHERE user_id = $1',
+    [userId]
+  );
+  return result.rows.map(r => [r.audiobook_title, Number(r.total_ms), r.plays]);
+}
+
+test('show and audiobook rollups follow inserts and deletes', async () => {
+  const userId = await createUser('listener');
+  await importRecords(userId, [
+    episode('2024-01-01T10:00:00Z', 1000, 'Pod A'),
+    episode('2024-01-02T10:00:00Z', 2000, 'Pod A'),
+    episode('2024-01-03T10:00:00Z', 500, 'Pod B'),
+    chapter('2024-01-04T10:00:00Z', 4000, 'Book')
+  ]);
+
+  assert.deepEqual(await showTotals(userId), [['Pod A', 3000, 2], ['Pod B', 500, 1]]);
+  assert.deepEqual(await audiobookTotals(userId), [['Book', 4000, 1]]);
+
+  await pool.query(`DELETE FROM streaming_history WHERE user_id = $1 AND show_name = 'Pod B'`, [userId]);
+  await pool.query(`DELETE FROM streaming_history WHERE user_id = $1 AND ts = '2024-01-01T10:00:00'`, [userId]);
+
+  assert.deepEqual(await showTotals(userId), [['Pod A', 2000, 1]]);
+});
+
+test('rebuilding recomputes show and audiobook rollups', async () => {
+  const userId = await createUser('rebuilt');
+  await importRecords(userId, [episode('2024-02-01T10:00:00Z', 1000, 'Pod C'), chapter('2024-02-02T10:00:00Z', 700, 'Tome')]);
+  await pool.query('UPDATE user_show_rollups SET total_ms = 1 WHERE user_id = $1', [userId]);
+
+  await rebuildRollups();
+
+  assert.deepEqual(await showTotals(userId), [['Pod C', 1000, 1]]);
+  assert.deepEqual(await audiobookTotals(userId), [['Tome', 700, 1]]);
+});
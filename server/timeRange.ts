@@ -0,0 +1,54 @@
+export interface TimeRange {
+  key: string;
+  from: Date | null;
+  to: Date | null;
+}
+
+// Parses the `range` query option shared by leaderboard endpoints:
+// all (default), week, month, year, a calendar year such as 2025, or custom
+// with `from`/`to` dates. Boundaries are UTC; a date-only `to` covers that
+// whole day. Returns null when the options don't describe a valid range.
+export function parseTimeRange(query: Record<string, unknown>, now = new Date()): TimeRange | null {
+  const range = typeof query.range === 'string' ? query.range : 'all';
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (range === 'all') {
+    return { key: range, from: null, to: null };
+  }
+  if (range === 'week') {
+    const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+    return { key: range, from: new Date(Date.UTC(year, month, now.getUTCDate() - daysSinceMonday)), to: null };
+  }
+  if (range === 'month') {
+    return { key: range, from: new Date(Date.UTC(year, month, 1)), to: null };
+  }
+  if (range === 'year') {
+    return { key: range, from: new Date(Date.UTC(year, 0, 1)), to: null };
+  }
+  if (/^\d{4}$/.test(range)) {
+    const calendarYear = parseInt(range);
+    return { key: range, from: new Date(Date.UTC(calendarYear, 0, 1)), to: new Date(Date.UTC(calendarYear + 1, 0, 1)) };
+  }
+  if (range === 'custom') {
+    const from = typeof query.from === 'string' ? new Date(query.from) : null;
+    const to = typeof query.to === 'string' ? new Date(query.to) : null;
+    if (to && /^\d{4}-\d{2}-\d{2}$/.test(query.to as string)) {
+      to.setUTCDate(to.getUTCDate() + 1);
+    }
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (!from && !to)) {
+      return null;
+    }
+    if (from && to && from >= to) {
+      return null;
+    }
+    return { key: range, from, to };
+  }
+  return null;
+}
+
+// streaming_history.ts is a UTC TIMESTAMP without time zone, so boundaries go
+// to Postgres as ISO strings rather than Dates (which pg sends in local time).
+export function rangeParams(range: TimeRange): [string | null, string | null] {
+  return [range.from?.toISOString() ?? null, range.to?.toISOString() ?? null];
+}
@@ -0,0 +1,175 @@
+import pool from './db';
+import { TimeRange, rangeParams } from './timeRange';
+
+const TOP_LIMIT = 5;
+
+// Calendar years (UTC) in which the user has any listening, most recent first.
+export async function getListeningYears(userId: number): Promise<number[]> {
+  const result = await pool.query(`
+    SELECT DISTINCT EXTRACT(YEAR FROM day)::int as year
+    FROM user_daily_rollups
+    WHERE user_id = $1
+    ORDER BY year DESC
+  `, [userId]);
+  return result.rows.map(r => r.year);
+}
+
+// A user's year in review. `year` is a calendar-year range from
+// parseTimeRange; returns null when the user has no plays in it.
+export async function getWrapped(userId: number, year: TimeRange) {
+  const params = [userId, ...rangeParams(year)];
+  const inYear = 'ts >= $2 AND ts < $3';
+
+  const totalsQuery = await pool.query(`
+    SELECT
+      COALESCE(SUM(ms_played), 0) as total_ms,
+      COUNT(*) as plays,
+      COUNT(DISTINCT track_name) as songs,
+      COUNT(DISTINCT artist_id) as artists
+    FROM streaming_history
+    WHERE user_id = $1 AND ${inYear}
+  `, params);
+  const totals = totalsQuery.rows[0];
+  if (parseInt(totals.plays) === 0) {
+    return null;
+  }
+
+  const topArtistsQuery = await pool.query(`
+    SELECT a.id, a.name, a.image_url, SUM(sh.ms_played) as total_ms, COUNT(*) as plays
+    FROM streaming_history sh
+    JOIN artists a ON sh.artist_id = a.id
+    WHERE sh.user_id = $1 AND ${inYear}
+    GROUP BY a.id
+    ORDER BY total_ms DESC
+    LIMIT ${TOP_LIMIT}
+  `, params);
+
+  const topSongsQuery = await pool.query(`
+    SELECT s.track_name, s.artist_name, s.artist_id, tm.album_image_url, s.total_ms, s.plays
+    FROM (
+      SELECT track_name, artist_name, MAX(artist_id) as artist_id, MAX(spotify_track_uri) as spotify_track_uri,
+        SUM(ms_played) as total_ms, COUNT(*) as plays
+      FROM streaming_history
+      WHERE user_id = $1 AND ${inYear} AND track_name IS NOT NULL
+      GROUP BY track_name, artist_name
+      ORDER BY total_ms DESC
+      LIMIT ${TOP_LIMIT}
+    ) s
+    LEFT JOIN track_metadata tm ON tm.spotify_track_uri = s.spotify_track_uri
+    ORDER BY s.total_ms DESC
+  `, params);
+
+  const topAlbumsQuery = await pool.query(`
+    SELECT
+      sh.album_name, sh.artist_name, MAX(sh.artist_id) as artist_id, MAX(tm.album_image_url) as album_image_url,
+      SUM(sh.ms_played) as total_ms, COUNT(*) as plays
+    FROM streaming_history sh
+    LEFT JOIN track_metadata tm ON tm.spotify_track_uri = sh.spotify_track_uri
+    WHERE sh.user_id = $1 AND ${inYear} AND sh.album_name IS NOT NULL
+    GROUP BY sh.album_name, sh.artist_name
+    ORDER BY total_ms DESC
+    LIMIT ${TOP_LIMIT}
+  `, params);
+
+  const busiestDayQuery = await pool.query(`
+    SELECT to_char(day, 'YYYY-MM-DD') as date, total_ms, plays
+    FROM user_daily_rollups
+    WHERE user_id = $1 AND day >= $2::date AND day < $3::date
+    ORDER BY total_ms DESC, day
+    LIMIT 1
+  `, params);
+
+  // Artists the user played for the first time ever during the year.
+  const newArtistsQuery = await pool.query(`
+    WITH firsts AS (
+      SELECT artist_id
+      FROM streaming_history
+      WHERE user_id = $1 AND artist_id IS NOT NULL
+      GROUP BY artist_id
+      HAVING MIN(ts) >= $2 AND MIN(ts) < $3
+    )
+    SELECT a.id, a.name, a.image_url, SUM(sh.ms_played) as total_ms, COUNT(*) OVER () as new_artist_count
+    FROM firsts f
+    JOIN artists a ON a.id = f.artist_id
+    JOIN streaming_history sh ON sh.artist_id = f.artist_id AND sh.user_id = $1 AND ${inYear}
+    GROUP BY a.id
+    ORDER BY total_ms DESC
+    LIMIT ${TOP_LIMIT}
+  `, params);
+
+  // Artists whose leaderboard for this year the user tops, ranked the same way
+  // as the artist leaderboards (ties go to the lower user id).
+  const crownsQuery = await pool.query(`
+    WITH year_totals AS (
+      SELECT user_id, artist_id, SUM(ms_played) as total_ms
+      FROM streaming_history
+      WHERE ${inYear} AND artist_id IN (
+        SELECT DISTINCT artist_id FROM streaming_history WHERE user_id = $1 AND ${inYear}
+      )
+      GROUP BY user_id, artist_id
+    ), ranked AS (
+      SELECT *,
+        ROW_NUMBER() OVER (PARTITION BY artist_id ORDER BY total_ms DESC, user_id) as rank,
+        COUNT(*) OVER (PARTITION BY artist_id) as listeners
+      FROM year_totals
+    )
+    SELECT a.id, a.name, a.image_url, r.total_ms, r.listeners
+    FROM ranked r
+    JOIN artists a ON a.id = r.artist_id
+    WHERE r.user_id = $1 AND r.rank = 1
+    ORDER BY r.listeners DESC, r.total_ms DESC
+  `, params);
+
+  const busiestDay = busiestDayQuery.rows[0];
+  return {
+    year: year.from!.getUTCFullYear(),
+    totalMinutes: Math.round(parseInt(totals.total_ms) / 60000),
+    plays: parseInt(totals.plays),
+    songCount: parseInt(totals.songs),
+    artistCount: parseInt(totals.artists),
+    topArtists: topArtistsQuery.rows.map(r => ({
+      id: r.id,
+      name: r.name,
+      imageUrl: r.image_url,
+      minutes: Math.round(parseInt(r.total_ms) / 60000),
+      plays: parseInt(r.plays)
+    })),
+    topSongs: topSongsQuery.rows.map(r => ({
+      name: r.track_name,
+      artist: r.artist_name,
+      artistId: r.artist_id,
+      albumImageUrl: r.album_image_url,
+      minutes: Math.round(parseInt(r.total_ms) / 60000),
+      plays: parseInt(r.plays)
+    })),
+    topAlbums: topAlbumsQuery.rows.map(r => ({
+      name: r.album_name,
+      artist: r.artist_name,
+      artistId: r.artist_id,
+      imageUrl: r.album_image_url,
+      minutes: Math.round(parseInt(r.total_ms) / 60000),
+      plays: parseInt(r.plays)
+    })),
+    busiestDay: busiestDay ? {
+      date: busiestDay.date,
+      minutes: Math.round(parseInt(busiestDay.total_ms) / 60000),
+      plays: parseInt(busiestDay.plays)
+    } : null,
+    newArtists: {
+      count: parseInt(newArtistsQuery.rows[0]?.new_artist_count ?? '0'),
+      top: newArtistsQuery.rows.map(r => ({
+        id: r.id,
+        name: r.name,
+        imageUrl: r.image_url,
+        minutes: Math.round(parseInt(r.total_ms) / 60000)
+      }))
+    },
+    crowns: crownsQuery.rows.map(r => ({
+      artistId: r.id,
+      artistName: r.name,
+      imageUrl: r.image_url,
+      minutes: Math.round(parseInt(r.total_ms) / 60000),
+      listeners: parseInt(r.listeners)
+    }))
+  };
+}